@@ -0,0 +1,111 @@
+import 'reflect-metadata';
+import AppDataSource from '../src/database/data-source';
+import { SnapshotBackfillJob, SnapshotBackfillStatus, SnapshotGranularity } from '../src/database/entities/SnapshotBackfillJob';
+import { SnapshotBackfillService } from '../src/services/SnapshotBackfillService';
+
+const USAGE = 'Usage: ts-node scripts/backfill-snapshots.ts --from <date> --to <date> [--granularity 15m|1h|1d] | --job <id> | --list';
+
+// ISO date (UTC) or unix timestamp in seconds
+function parseTimestamp(value: string | undefined): number {
+  const timestamp = /^\d+$/.test(value || '') ? parseInt(value!) : Math.floor(new Date(value || '').getTime() / 1000);
+  if (Number.isNaN(timestamp)) {
+    throw new Error(`Invalid date ${value}\n${USAGE}`);
+  }
+  return timestamp;
+}
+
+function parseArgs(argv: string[]) {
+  const options: { from?: number; to?: number; granularity: SnapshotGranularity; jobId?: number; list: boolean } = {
+    granularity: SnapshotGranularity.HOUR,
+    list: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--from':
+        options.from = parseTimestamp(argv[++i]);
+        break;
+      case '--to':
+        options.to = parseTimestamp(argv[++i]);
+        break;
+      case '--granularity': {
+        const granularity = argv[++i] as SnapshotGranularity;
+        if (!Object.values(SnapshotGranularity).includes(granularity)) {
+          throw new Error(`Unknown granularity ${granularity}\n${USAGE}`);
+        }
+        options.granularity = granularity;
+        break;
+      }
+      case '--job':
+        options.jobId = parseInt(argv[++i]);
+        break;
+      case '--list':
+        options.list = true;
+        break;
+      default:
+        throw new Error(`Unknown option ${argv[i]}\n${USAGE}`);
+    }
+  }
+
+  if (!options.list && options.jobId === undefined && (options.from === undefined || options.to === undefined)) {
+    throw new Error(USAGE);
+  }
+  if (Number.isNaN(options.jobId)) {
+    throw new Error(`Job id must be numeric\n${USAGE}`);
+  }
+
+  return options;
+}
+
+function printJob(job: SnapshotBackfillJob) {
+  const range = `${new Date(job.fromTimestamp * 1000).toISOString()} - ${new Date(job.toTimestamp * 1000).toISOString()}`;
+  console.log(`#${job.id} ${job.granularity} ${range}: ${job.status}, ${job.snapshotsWritten} snapshots, next slot ${new Date(job.nextTimestamp * 1000).toISOString()}${job.lastError ? ` (${job.lastError})` : ''}`);
+}
+
+async function backfillSnapshots() {
+  try {
+    const options = parseArgs(process.argv.slice(2));
+    await AppDataSource.initialize();
+
+    const jobRepo = AppDataSource.getRepository(SnapshotBackfillJob);
+
+    if (options.list) {
+      const jobs = await jobRepo.find({ order: { id: 'ASC' } });
+      jobs.forEach(printJob);
+      await AppDataSource.destroy();
+      process.exit(0);
+    }
+
+    const backfillService = new SnapshotBackfillService();
+    const job = options.jobId !== undefined
+      ? await jobRepo.findOne({ where: { id: options.jobId } })
+      : await backfillService.findOrCreateJob(options.granularity, options.from!, options.to!);
+    if (!job) {
+      throw new Error(`Snapshot backfill job ${options.jobId} not found`);
+    }
+
+    console.log(`${job.snapshotsWritten > 0 ? 'Resuming' : 'Starting'} snapshot backfill job ${job.id}...`);
+    const result = await backfillService.run(job);
+    printJob(result);
+
+    await AppDataSource.destroy();
+
+    if (result.status === SnapshotBackfillStatus.FAILED) {
+      console.error(`❌ Snapshot backfill failed - rerun the same command to resume`);
+      process.exit(1);
+    }
+
+    console.log(result.status === SnapshotBackfillStatus.COMPLETED
+      ? '✅ Snapshot backfill completed'
+      : '⏸️  Snapshot backfill caught up with the scanner - rerun later to continue');
+    process.exit(0);
+  } catch (error: any) {
+    console.error('❌ Error backfilling snapshots:', error.message);
+    if (AppDataSource.isInitialized) {
+      await AppDataSource.destroy();
+    }
+    process.exit(1);
+  }
+}
+
+backfillSnapshots();
@@ -0,0 +1,163 @@
+import 'reflect-metadata';
+import AppDataSource from '../src/database/data-source';
+import { HourlySnapshot } from '../src/database/entities/HourlySnapshot';
+import { NormalizedReplayService, NormalizedStateChange } from '../src/services/NormalizedReplayService';
+import { SnapshotService } from '../src/services/SnapshotService';
+import { SnapshotRollupService } from '../src/services/SnapshotRollupService';
+
+const USAGE = 'Usage: ts-node scripts/rebuild-normalized-tables.ts [--from-block <n>] [--to-block <n>] [--snapshots] [--dry-run]';
+
+// Event-derived snapshot columns compared in dry-run mode
+const SNAPSHOT_FIELDS: (keyof HourlySnapshot)[] = [
+  'tfuelStakedAmount',
+  'stfuelTotalSupply',
+  'currentHoldersCount',
+  'historicalHoldersCount',
+  'totalReferralRewards',
+  'edgeNodesCount',
+  'totalKeeperTipsPaid',
+];
+
+function parseArgs(argv: string[]) {
+  const options: { fromBlock?: number; toBlock?: number; snapshots: boolean; dryRun: boolean } = {
+    snapshots: false,
+    dryRun: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--from-block':
+        options.fromBlock = parseInt(argv[++i]);
+        break;
+      case '--to-block':
+        options.toBlock = parseInt(argv[++i]);
+        break;
+      case '--snapshots':
+        options.snapshots = true;
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      default:
+        throw new Error(`Unknown option ${argv[i]}\n${USAGE}`);
+    }
+  }
+
+  if (Number.isNaN(options.fromBlock) || Number.isNaN(options.toBlock)) {
+    throw new Error(`Block range must be numeric\n${USAGE}`);
+  }
+
+  return options;
+}
+
+function printChanges(changes: NormalizedStateChange[]) {
+  for (const { table, key, change, fields } of changes) {
+    console.log(`${change === 'added' ? '+' : change === 'removed' ? '-' : '~'} ${table} ${key}`);
+    if (change === 'changed') {
+      for (const [field, { before, after }] of Object.entries(fields)) {
+        console.log(`    ${field}: ${JSON.stringify(before)} -> ${JSON.stringify(after)}`);
+      }
+    }
+  }
+
+  for (const table of ['users', 'edge_nodes', 'redemption_queue']) {
+    const tableChanges = changes.filter(change => change.table === table);
+    const count = (kind: string) => tableChanges.filter(change => change.change === kind).length;
+    console.log(`${table}: ${count('added')} added, ${count('removed')} removed, ${count('changed')} changed`);
+  }
+}
+
+// Recalculate snapshots within the block range at their stored blocks
+async function rebuildSnapshots(fromBlock: number | undefined, toBlock: number | undefined, dryRun: boolean) {
+  const snapshotService = new SnapshotService();
+  const snapshotRepo = AppDataSource.getRepository(HourlySnapshot);
+
+  let query = snapshotRepo.createQueryBuilder('snapshot').orderBy('snapshot.blockNumber', 'ASC');
+  if (fromBlock !== undefined) {
+    query = query.andWhere('CAST(snapshot.blockNumber AS bigint) >= :fromBlock', { fromBlock });
+  }
+  if (toBlock !== undefined) {
+    query = query.andWhere('CAST(snapshot.blockNumber AS bigint) <= :toBlock', { toBlock });
+  }
+  const snapshots = await query.getMany();
+
+  let changed = 0;
+  for (const snapshot of snapshots) {
+    const recalculated = await snapshotService.recalculateSnapshot(snapshot);
+    const changedFields = SNAPSHOT_FIELDS.filter(field => String(snapshot[field]) !== String(recalculated[field]));
+    if (changedFields.length === 0) continue;
+
+    changed++;
+    if (dryRun) {
+      console.log(`~ hourly_snapshots block ${snapshot.blockNumber}`);
+      for (const field of changedFields) {
+        console.log(`    ${field}: ${snapshot[field]} -> ${recalculated[field]}`);
+      }
+    } else {
+      await snapshotRepo.save(recalculated);
+    }
+  }
+
+  console.log(`hourly_snapshots: ${changed} of ${snapshots.length} snapshots ${dryRun ? 'would change' : 'updated'}`);
+
+  if (!dryRun && changed > 0) {
+    await new SnapshotRollupService().refresh(
+      snapshots[0].snapshotTimestamp,
+      snapshots[snapshots.length - 1].snapshotTimestamp
+    );
+    console.log('snapshot_rollups: refreshed the periods of the recalculated snapshots');
+  }
+}
+
+async function rebuildNormalizedTables() {
+  try {
+    const options = parseArgs(process.argv.slice(2));
+    await AppDataSource.initialize();
+
+    const replayService = new NormalizedReplayService();
+    const queryRunner = AppDataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      if (options.dryRun) {
+        // Dry run: report the differences, then discard the rebuilt tables
+        const { replayedCount, changes } = await replayService.dryRun(queryRunner, {
+          fromBlock: options.fromBlock,
+          toBlock: options.toBlock,
+        });
+        printChanges(changes);
+        await queryRunner.rollbackTransaction();
+        console.log(`Dry run: replayed ${replayedCount} events, nothing was written`);
+      } else {
+        const replayedCount = await replayService.rebuild(queryRunner, {
+          fromBlock: options.fromBlock,
+          toBlock: options.toBlock,
+        });
+        await queryRunner.commitTransaction();
+        console.log(`✅ Normalized tables rebuilt from ${replayedCount} events`);
+      }
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+
+    // Snapshots are read from the raw events only, so they do not depend on the rebuild above
+    if (options.snapshots) {
+      await rebuildSnapshots(options.fromBlock, options.toBlock, options.dryRun);
+    }
+
+    await AppDataSource.destroy();
+    process.exit(0);
+  } catch (error: any) {
+    console.error('❌ Error rebuilding normalized tables:', error.message);
+    if (AppDataSource.isInitialized) {
+      await AppDataSource.destroy();
+    }
+    process.exit(1);
+  }
+}
+
+rebuildNormalizedTables();
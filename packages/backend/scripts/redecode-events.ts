@@ -0,0 +1,74 @@
+import 'reflect-metadata';
+import { MoreThan, Repository } from 'typeorm';
+import AppDataSource from '../src/database/data-source';
+import { NodeManagerEvent } from '../src/database/entities/NodeManagerEvent';
+import { StfuelEvent } from '../src/database/entities/StfuelEvent';
+import { ContractEvent } from '../src/database/entities/ContractEvent';
+import { VersionedEventDecoder } from '../src/scanner/VersionedEventDecoder';
+import { nodeManagerAbiVersions, stfuelAbiVersions } from '../src/contracts/abiVersions';
+import { loadContractRegistry } from '../src/contracts/registry';
+
+const PAGE_SIZE = 1000;
+
+// Re-decode stored raw events from their topics and data, e.g. after swapping in a new ABI
+async function redecodeTable(repo: Repository<any>, decoder: VersionedEventDecoder, label: string, filter: { contractName?: string } = {}) {
+  let lastId = 0;
+  let updated = 0;
+  let unknown = 0;
+
+  while (true) {
+    const events: (NodeManagerEvent | StfuelEvent | ContractEvent)[] = await repo.find({
+      where: { ...filter, id: MoreThan(lastId) },
+      order: { id: 'ASC' },
+      take: PAGE_SIZE,
+    });
+    if (events.length === 0) break;
+
+    for (const event of events) {
+      const decoded = decoder.decode({
+        topics: event.topics || [],
+        data: event.data || '0x',
+        blockNumber: event.blockNumber,
+      });
+      if (!decoded) unknown++;
+
+      await repo.update(event.id, {
+        eventName: decoded ? decoded.eventName : (event.topics?.[0] || 'anonymous'),
+        decoded: !!decoded,
+        abiVersion: decoded ? decoded.abiVersion : () => 'NULL',
+        args: decoded ? decoded.args : () => 'NULL',
+      });
+      updated++;
+    }
+
+    lastId = events[events.length - 1].id;
+  }
+
+  console.log(`${label}: re-decoded ${updated} events (${unknown} unknown topics)`);
+}
+
+async function redecodeEvents() {
+  try {
+    await AppDataSource.initialize();
+    await redecodeTable(AppDataSource.getRepository(NodeManagerEvent), new VersionedEventDecoder(nodeManagerAbiVersions), 'NodeManager');
+    await redecodeTable(AppDataSource.getRepository(StfuelEvent), new VersionedEventDecoder(stfuelAbiVersions), 'sTFuel');
+    // Contracts stored in contract_events (generic, adminMultisig and referralNft handlers)
+    for (const contract of loadContractRegistry().filter(entry => ['generic', 'adminMultisig', 'referralNft'].includes(entry.handler))) {
+      await redecodeTable(
+        AppDataSource.getRepository(ContractEvent),
+        new VersionedEventDecoder(contract.abiVersions),
+        contract.name,
+        { contractName: contract.name }
+      );
+    }
+    console.log('✅ Stored events re-decoded. Rebuild the normalized tables to apply the new args.');
+    await AppDataSource.destroy();
+    process.exit(0);
+  } catch (error: any) {
+    console.error('❌ Error re-decoding events:', error.message);
+    await AppDataSource.destroy();
+    process.exit(1);
+  }
+}
+
+redecodeEvents();
@@ -0,0 +1,302 @@
+import 'reflect-metadata';
+import { ethers } from 'ethers';
+import AppDataSource from '../src/database/data-source';
+import { HourlySnapshot } from '../src/database/entities/HourlySnapshot';
+import { BlockScanner } from '../src/scanner/BlockScanner';
+import { ReorgHandler } from '../src/scanner/ReorgHandler';
+import { RegisteredContract } from '../src/contracts/registry';
+import { stfuelAbiVersions } from '../src/contracts/abiVersions';
+import stfuelAbi from '../src/contracts/stfuel.abi.json';
+import { NORMALIZED_TABLES, NormalizedReplayService, NormalizedState, NormalizedStateChange } from '../src/services/NormalizedReplayService';
+
+const START_BLOCK = 1000000;
+// Fetch batches in the parallel scan, of one log range each
+const BATCH_COUNT = 3;
+// 2024-01-01 00:00:01 UTC - every fixture block falls within the same hour, so no snapshot is due
+const START_TIMESTAMP = 1704067201;
+// Every n-th block carries transfers, several per block
+const LOG_BLOCK_INTERVAL = 37;
+const TRANSFERS_PER_BLOCK = 3;
+// Blocks rolled back after the parallel scan, within the default confirmation depth
+const REORG_DEPTH = 40;
+// Delay of a log range per batch it is ahead of the last one, so later batches arrive first
+const BATCH_DELAY_STEP = 300;
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const STFUEL_ADDRESS = '0x00000000000000000000000000000000005afe01';
+const HOLDERS = [1, 2, 3, 4, 5].map(n => `0x${n.toString(16).padStart(40, '0')}`);
+
+// Tables a scan writes to, emptied before each scan and afterwards
+const SCANNED_TABLES = ['node_manager_events', 'stfuel_events', 'contract_events', 'dead_letter_events', 'block_headers', 'snapshot_rollups', 'hourly_snapshots', 'normalized_undo_log', ...NORMALIZED_TABLES];
+
+const blockHash = (blockNumber: number) => ethers.id(`block:${blockNumber}`);
+
+// Deterministic pseudo-random numbers, so every run scans the same chain
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+function shuffle<T>(items: T[], next: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(next() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * sTFuel Transfer logs between a few holders, several per block, so balances and the
+ * balance history depend on the order the events are applied in.
+ */
+function buildLogs(blockCount: number): ethers.Log[] {
+  const stfuel = new ethers.Interface(stfuelAbi);
+  const next = random(42);
+  const balances = new Map<string, bigint>(HOLDERS.map(holder => [holder, BigInt(0)]));
+  const logs: any[] = [];
+
+  for (let blockNumber = START_BLOCK; blockNumber < START_BLOCK + blockCount; blockNumber += LOG_BLOCK_INTERVAL) {
+    for (let index = 0; index < TRANSFERS_PER_BLOCK; index++) {
+      const to = HOLDERS[Math.floor(next() * HOLDERS.length)];
+      const sender = HOLDERS[Math.floor(next() * HOLDERS.length)];
+      const amount = BigInt(Math.floor(next() * 1000) + 1) * BigInt('1000000000000000');
+      // Mint when the sender cannot cover the amount
+      const from = balances.get(sender)! >= amount ? sender : ZERO_ADDRESS;
+
+      if (from !== ZERO_ADDRESS) {
+        balances.set(from, balances.get(from)! - amount);
+      }
+      balances.set(to, balances.get(to)! + amount);
+
+      const { topics, data } = stfuel.encodeEventLog('Transfer', [from, to, amount]);
+      logs.push({
+        address: STFUEL_ADDRESS,
+        blockNumber,
+        blockHash: blockHash(blockNumber),
+        transactionHash: ethers.id(`tx:${blockNumber}:${index}`),
+        transactionIndex: index,
+        index,
+        topics,
+        data,
+        removed: false,
+      });
+    }
+  }
+
+  return logs;
+}
+
+/**
+ * Serves a fixed chain. With delays, log ranges further from the end of the chain
+ * answer later, so the scanner receives its batches in reverse order, with their
+ * logs shuffled.
+ */
+class StubProvider extends ethers.JsonRpcProvider {
+  // Start blocks of the log ranges in the order they were answered
+  answeredRanges: number[] = [];
+  private logs: ethers.Log[];
+  private lastBlock: number;
+  private rangeSize: number | null;
+  private next = random(7);
+
+  constructor(logs: ethers.Log[], lastBlock: number, rangeSize: number | null) {
+    super('http://127.0.0.1:8545', 1, { staticNetwork: true });
+    this.logs = logs;
+    this.lastBlock = lastBlock;
+    this.rangeSize = rangeSize;
+  }
+
+  async getBlock(blockTag: ethers.BlockTag): Promise<any> {
+    const blockNumber = Number(blockTag);
+    if (blockNumber < START_BLOCK || blockNumber > this.lastBlock) {
+      return null;
+    }
+
+    return {
+      number: blockNumber,
+      hash: blockHash(blockNumber),
+      parentHash: blockHash(blockNumber - 1),
+      // Ten blocks per second keep a full fixture chain within the hour
+      timestamp: START_TIMESTAMP + Math.floor((blockNumber - START_BLOCK) / 10),
+    };
+  }
+
+  async getLogs(filter: ethers.Filter): Promise<ethers.Log[]> {
+    const fromBlock = Number(filter.fromBlock);
+    const toBlock = Number(filter.toBlock);
+    const logs = this.logs.filter(log => log.blockNumber >= fromBlock && log.blockNumber <= toBlock);
+
+    if (this.rangeSize === null) {
+      return logs;
+    }
+
+    const batchesAhead = Math.floor((this.lastBlock - fromBlock) / this.rangeSize);
+    await new Promise(resolve => setTimeout(resolve, batchesAhead * BATCH_DELAY_STEP));
+    this.answeredRanges.push(fromBlock);
+    return shuffle(logs, this.next);
+  }
+}
+
+async function resetScannedTables(): Promise<void> {
+  await AppDataSource.query(`TRUNCATE TABLE ${SCANNED_TABLES.map(table => `"${table}"`).join(', ')}`);
+  await AppDataSource.query(`DELETE FROM "addresses" WHERE "address" = ANY($1)`, [HOLDERS]);
+}
+
+/**
+ * Scan the fixture chain from empty tables and capture the normalized state. A snapshot
+ * right before the chain keeps the scanner from taking one (with contract calls) on
+ * its first block.
+ */
+async function scan(run: (scanner: BlockScanner, contracts: RegisteredContract[]) => Promise<void>, provider: StubProvider): Promise<NormalizedState> {
+  await resetScannedTables();
+  await AppDataSource.getRepository(HourlySnapshot).save({
+    blockNumber: (START_BLOCK - 1).toString(),
+    snapshotTimestamp: START_TIMESTAMP - 1,
+    tfuelBackingAmount: '0',
+    tfuelStakedAmount: '0',
+    stfuelTotalSupply: '0',
+    currentHoldersCount: 0,
+    historicalHoldersCount: 0,
+    totalReferralRewards: '0',
+    edgeNodesCount: 0,
+    totalKeeperTipsPaid: '0',
+  });
+
+  const contracts: RegisteredContract[] = [{
+    name: 'stfuel',
+    address: STFUEL_ADDRESS,
+    abiVersions: stfuelAbiVersions,
+    startBlock: START_BLOCK,
+    handler: 'stfuel',
+  }];
+  const scanner = new BlockScanner(provider, contracts);
+  await scanner['loadContractCheckpoints']();
+  await run(scanner, contracts);
+
+  const queryRunner = AppDataSource.createQueryRunner();
+  try {
+    return await new NormalizedReplayService().captureState(queryRunner);
+  } finally {
+    await queryRunner.release();
+  }
+}
+
+/**
+ * Roll the scanned chain back as on a reorg and compare the undone normalized state
+ * with a rebuild from the raw events left. Returns the differences and the number of
+ * undo entries the rollback had to go through.
+ */
+async function rollBack(provider: StubProvider, forkBlock: number): Promise<{ changes: NormalizedStateChange[]; undoEntries: number }> {
+  const [{ undoEntries }] = await AppDataSource.query(
+    `SELECT COUNT(*)::int AS "undoEntries" FROM "normalized_undo_log" WHERE "blockNumber" > $1`,
+    [forkBlock]
+  );
+  await new ReorgHandler(provider).rollbackTo(forkBlock);
+
+  const queryRunner = AppDataSource.createQueryRunner();
+  await queryRunner.connect();
+  await queryRunner.startTransaction();
+  try {
+    const { changes } = await new NormalizedReplayService().dryRun(queryRunner);
+    return { changes, undoEntries };
+  } finally {
+    await queryRunner.rollbackTransaction();
+    await queryRunner.release();
+  }
+}
+
+async function testNormalizedTables() {
+  try {
+    await AppDataSource.initialize();
+
+    const [{ count }] = await AppDataSource.query(`
+      SELECT (SELECT COUNT(*) FROM "node_manager_events") + (SELECT COUNT(*) FROM "stfuel_events")
+           + (SELECT COUNT(*) FROM "contract_events") + (SELECT COUNT(*) FROM "hourly_snapshots") AS "count"
+    `);
+    if (parseInt(count) > 0) {
+      throw new Error('The test scans fixture blocks into the event tables - run it against an empty, migrated database');
+    }
+
+    // One log range per batch of the parallel scan
+    const rangeSize = new BlockScanner(new StubProvider([], 0, null), [])['logFetcher'].getRangeSize();
+    const blockCount = rangeSize * BATCH_COUNT;
+    const lastBlock = START_BLOCK + blockCount - 1;
+    const logs = buildLogs(blockCount);
+    console.log(`Comparing serial and parallel scans of ${blockCount} blocks with ${logs.length} transfers...`);
+
+    const parallelProvider = new StubProvider(logs, lastBlock, rangeSize);
+    const forkBlock = lastBlock - REORG_DEPTH;
+    // The rollback moves the checkpoints back - they are restored afterwards
+    const syncStates: { key: string; lastBlockNumber: string }[] = await AppDataSource.query(`SELECT "key", "lastBlockNumber" FROM "sync_state"`);
+    let serialState: NormalizedState;
+    let parallelState: NormalizedState;
+    let reorg: { changes: NormalizedStateChange[]; undoEntries: number };
+    try {
+      // Serial scan: block by block, as in live scanning
+      serialState = await scan(async (scanner, contracts) => {
+        for (let blockNumber = START_BLOCK; blockNumber <= lastBlock; blockNumber++) {
+          await scanner['scanBlock'](blockNumber, contracts);
+        }
+      }, new StubProvider(logs, lastBlock, null));
+
+      // Parallel scan: batches fetched concurrently, answered last to first
+      parallelState = await scan(
+        (scanner, contracts) => scanner['scanBlocksInParallel'](START_BLOCK, blockCount, contracts),
+        parallelProvider
+      );
+
+      reorg = await rollBack(parallelProvider, forkBlock);
+    } finally {
+      await resetScannedTables();
+      await AppDataSource.query(`DELETE FROM "sync_state" WHERE NOT ("key" = ANY($1))`, [syncStates.map(({ key }) => key)]);
+      for (const { key, lastBlockNumber } of syncStates) {
+        await AppDataSource.query(`UPDATE "sync_state" SET "lastBlockNumber" = $2 WHERE "key" = $1`, [key, lastBlockNumber]);
+      }
+    }
+    await AppDataSource.destroy();
+
+    const failures: string[] = [];
+    const answeredInOrder = parallelProvider.answeredRanges.every((fromBlock, i, ranges) => i === 0 || fromBlock > ranges[i - 1]);
+    if (answeredInOrder) {
+      failures.push(`log ranges were answered in block order (${parallelProvider.answeredRanges.join(', ')}), nothing was reordered`);
+    }
+    if (serialState.balance_changes.size === 0) {
+      failures.push('the serial scan indexed no transfers');
+    }
+
+    const changes = new NormalizedReplayService().diffState(serialState, parallelState);
+    for (const { table, key, change, fields } of changes) {
+      failures.push(`${table} ${key} ${change} in the parallel scan: ${JSON.stringify(fields)}`);
+    }
+    if (reorg.undoEntries === 0) {
+      failures.push(`the rollback to block ${forkBlock} found nothing to undo`);
+    }
+    for (const { table, key, change, fields } of reorg.changes) {
+      failures.push(`${table} ${key} ${change} by a rebuild after the rollback to block ${forkBlock}: ${JSON.stringify(fields)}`);
+    }
+    for (const table of Object.keys(serialState)) {
+      console.log(`${table}: ${serialState[table].size} rows (serial), ${parallelState[table].size} rows (parallel)`);
+    }
+
+    if (failures.length > 0) {
+      failures.forEach(failure => console.error(`❌ ${failure}`));
+      process.exit(1);
+    }
+
+    console.log(`✅ Normalized state is identical between serial and parallel scans (log ranges answered in order ${parallelProvider.answeredRanges.join(', ')})`);
+    console.log(`✅ Rolling back to block ${forkBlock} undid ${reorg.undoEntries} row changes, matching a rebuild from the remaining events`);
+    process.exit(0);
+  } catch (error: any) {
+    console.error('❌ Error testing normalized tables:', error.message);
+    if (AppDataSource.isInitialized) {
+      await AppDataSource.destroy();
+    }
+    process.exit(1);
+  }
+}
+
+testNormalizedTables();
@@ -6,11 +6,13 @@ import { EdgeNode } from '../database/entities/EdgeNode';
 import { Address } from '../database/entities/Address';
 import { AdminAuthService } from '../services/AdminAuthService';
 import { EdgeNodeManagerService, NodeStatus } from '../services/EdgeNodeManagerService';
+import { DeadLetterService } from '../services/DeadLetterService';
 import { adminAuthMiddleware, AuthenticatedRequest } from '../middleware/adminAuth';
 
 const router = Router();
 const adminAuthService = new AdminAuthService();
 const edgeNodeManagerService = new EdgeNodeManagerService();
+const deadLetterService = new DeadLetterService();
 
 const normalizeAddress = (rawAddress?: string | null): string | null => {
   if (!rawAddress) return null;
@@ -736,5 +738,69 @@ router.post('/servers/:id/refresh', adminAuthMiddleware, async (req: Authenticat
   }
 });
 
+// List events whose normalized processing failed
+router.get('/dead-letters', adminAuthMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    const { deadLetters, totalCount } = await deadLetterService.list(limit, offset);
+
+    res.json({
+      deadLetters: deadLetters.map((deadLetter) => ({
+        id: deadLetter.id,
+        handler: deadLetter.handler,
+        eventId: deadLetter.eventId,
+        eventName: deadLetter.eventName,
+        blockNumber: deadLetter.blockNumber,
+        transactionHash: deadLetter.transactionHash,
+        logIndex: deadLetter.logIndex,
+        error: deadLetter.error,
+        stack: deadLetter.stack,
+        attempts: deadLetter.attempts,
+        createdAt: deadLetter.createdAt,
+        updatedAt: deadLetter.updatedAt,
+      })),
+      totalCount,
+    });
+  } catch (error: any) {
+    console.error('Error fetching dead letters:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch dead letters' });
+  }
+});
+
+// Retry all dead-lettered events in chain order
+router.post('/dead-letters/retry', adminAuthMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const result = await deadLetterService.retryAll();
+    res.json({ success: result.failed === 0, ...result });
+  } catch (error: any) {
+    console.error('Error retrying dead letters:', error);
+    res.status(500).json({ error: error.message || 'Failed to retry dead letters' });
+  }
+});
+
+// Retry a single dead-lettered event
+router.post('/dead-letters/:id/retry', adminAuthMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const succeeded = await deadLetterService.retry(parseInt(req.params.id));
+
+    if (succeeded === null) {
+      res.status(404).json({ error: 'Dead letter not found' });
+      return;
+    }
+
+    if (!succeeded) {
+      res.status(500).json({ error: 'Retry failed, the dead letter was updated with the new error' });
+      return;
+    }
+
+    res.json({ success: true, message: 'Event processed successfully' });
+  } catch (error: any) {
+    console.error('Error retrying dead letter:', error);
+    res.status(500).json({ error: error.message || 'Failed to retry dead letter' });
+  }
+});
+
 export default router;
 
@@ -0,0 +1,61 @@
+import { ethers } from 'ethers';
+import { config } from '../config/environment';
+import nodeManagerAbi from './nodeManager.abi.json';
+import nodeManagerV1Abi from './nodeManager.v1.abi.json';
+import stfuelAbi from './stfuel.abi.json';
+import adminMultisigAbi from './adminMultisig.abi.json';
+import referralNftAbi from './referralNft.abi.json';
+
+export interface AbiVersion {
+  version: number;
+  // First block (inclusive) emitted by this deployment
+  fromBlock: number;
+  abi: ethers.InterfaceAbi;
+  // Rename decoded args of older event shapes to the canonical (latest) shape
+  canonicalArgs?: { [eventName: string]: (args: Record<string, any>) => Record<string, any> };
+}
+
+export const nodeManagerAbiVersions: AbiVersion[] = [
+  {
+    version: 1,
+    fromBlock: 0,
+    abi: nodeManagerV1Abi,
+    canonicalArgs: {
+      // KeeperPaid(keeper, tipPaid, tipTotalProcessed) was replaced by KeeperCredited(keeper, tipCredited, tipTotalProcessed)
+      KeeperPaid: (args) => ({
+        keeper: args.keeper,
+        tipCredited: args.tipPaid,
+        tipTotalProcessed: args.tipTotalProcessed,
+      }),
+    },
+  },
+  {
+    version: 2,
+    fromBlock: config.nodeManagerAbiV2Block,
+    abi: nodeManagerAbi,
+  },
+];
+
+export const stfuelAbiVersions: AbiVersion[] = [
+  {
+    version: 1,
+    fromBlock: 0,
+    abi: stfuelAbi,
+  },
+];
+
+export const adminMultisigAbiVersions: AbiVersion[] = [
+  {
+    version: 1,
+    fromBlock: 0,
+    abi: adminMultisigAbi,
+  },
+];
+
+export const referralNftAbiVersions: AbiVersion[] = [
+  {
+    version: 1,
+    fromBlock: 0,
+    abi: referralNftAbi,
+  },
+];
@@ -1,139 +1,81 @@
 import { ethers } from 'ethers';
-import { config } from '../config/environment';
+import { getProviderPool } from '../rpc/RpcProviderPool';
 import nodeManagerAbi from './nodeManager.abi.json';
 import stfuelAbi from './stfuel.abi.json';
+import { ContractHandler, RegisteredContract, loadContractRegistry } from './registry';
 
 export class ContractManager {
   private provider: ethers.JsonRpcProvider;
-  private nodeManagerContract: ethers.Contract;
-  private stfuelContract: ethers.Contract;
-  private currentRpcIndex: number = 0;
+  private registry: RegisteredContract[];
+  private contracts: Map<string, ethers.Contract> = new Map();
 
-  constructor() {
-    this.provider = this.createProvider();
+  constructor(provider?: ethers.JsonRpcProvider) {
+    // Calls go through the shared provider pool, which fails over between RPC endpoints
+    this.provider = provider || getProviderPool();
+    this.registry = loadContractRegistry();
     
     // Allow empty addresses for testing - contracts will be created but won't be used
-    if (!config.nodeManagerAddress) {
+    if (!this.registry.some(contract => contract.handler === 'nodeManager')) {
       console.warn('NODE_MANAGER_ADDRESS not set - NodeManager events will not be tracked');
     }
     
-    if (!config.stfuelAddress) {
+    if (!this.registry.some(contract => contract.handler === 'stfuel')) {
       console.warn('STFUEL_ADDRESS not set - sTFuel events will not be tracked');
     }
 
-    // Create contracts only if addresses are provided
-    if (config.nodeManagerAddress) {
-      this.nodeManagerContract = new ethers.Contract(
-        config.nodeManagerAddress,
-        nodeManagerAbi,
-        this.provider
-      );
-    } else {
-      // Create a dummy contract for testing
-      this.nodeManagerContract = new ethers.Contract(
-        '0x0000000000000000000000000000000000000000',
-        nodeManagerAbi,
-        this.provider
-      );
-    }
-
-    if (config.stfuelAddress) {
-      this.stfuelContract = new ethers.Contract(
-        config.stfuelAddress,
-        stfuelAbi,
-        this.provider
-      );
-    } else {
-      // Create a dummy contract for testing
-      this.stfuelContract = new ethers.Contract(
-        '0x0000000000000000000000000000000000000000',
-        stfuelAbi,
-        this.provider
-      );
-    }
+    this.createContracts();
   }
 
-  private createProvider(): ethers.JsonRpcProvider {
-    const rpcUrl = config.thetaRpcUrls[this.currentRpcIndex];
-    const provider = new ethers.JsonRpcProvider(rpcUrl);
-    
-    // Set timeout
-    provider._getConnection().timeout = config.rpcTimeout;
-    
-    return provider;
-  }
+  private createContracts(): void {
+    this.contracts.clear();
 
-  private async switchToNextRpc(): Promise<void> {
-    this.currentRpcIndex = (this.currentRpcIndex + 1) % config.thetaRpcUrls.length;
-    console.log(`Switching to RPC: ${config.thetaRpcUrls[this.currentRpcIndex]}`);
-    
-    this.provider = this.createProvider();
-    
-    // Recreate contracts with new provider
-    if (config.nodeManagerAddress) {
-      this.nodeManagerContract = new ethers.Contract(
-        config.nodeManagerAddress,
-        nodeManagerAbi,
-        this.provider
-      );
-    } else {
-      this.nodeManagerContract = new ethers.Contract(
+    for (const contract of this.registry) {
+      // Calls always use the latest ABI version
+      const latest = contract.abiVersions.reduce((a, b) => (b.fromBlock >= a.fromBlock ? b : a));
+      this.contracts.set(contract.name, new ethers.Contract(contract.address, latest.abi, this.provider));
+    }
+
+    // Create dummy contracts for testing when NodeManager / sTFuel are not configured
+    if (!this.getContractByHandler('nodeManager')) {
+      this.contracts.set('nodeManager', new ethers.Contract(
         '0x0000000000000000000000000000000000000000',
         nodeManagerAbi,
         this.provider
-      );
+      ));
     }
 
-    if (config.stfuelAddress) {
-      this.stfuelContract = new ethers.Contract(
-        config.stfuelAddress,
-        stfuelAbi,
-        this.provider
-      );
-    } else {
-      this.stfuelContract = new ethers.Contract(
+    if (!this.getContractByHandler('stfuel')) {
+      this.contracts.set('stfuel', new ethers.Contract(
         '0x0000000000000000000000000000000000000000',
         stfuelAbi,
         this.provider
-      );
+      ));
     }
   }
 
-  private async retryWithFallback<T>(operation: () => Promise<T>, operationName: string): Promise<T> {
-    let lastError: Error | null = null;
-    
-    for (let attempt = 0; attempt < config.rpcRetryAttempts; attempt++) {
-      try {
-        return await operation();
-      } catch (error: any) {
-        lastError = error;
-        console.warn(`${operationName} failed on attempt ${attempt + 1}:`, error.message);
-        
-        if (attempt < config.rpcRetryAttempts - 1) {
-          // Switch to next RPC if available
-          if (config.thetaRpcUrls.length > 1) {
-            await this.switchToNextRpc();
-          }
-          
-          // Wait before retry
-          await new Promise(resolve => setTimeout(resolve, config.rpcRetryDelay));
-        }
-      }
-    }
-    
-    throw new Error(`${operationName} failed after ${config.rpcRetryAttempts} attempts. Last error: ${lastError?.message}`);
+  private getContractByHandler(handler: ContractHandler): ethers.Contract | undefined {
+    const contract = this.registry.find(entry => entry.handler === handler);
+    return contract ? this.contracts.get(contract.name) : undefined;
   }
 
   getProvider(): ethers.JsonRpcProvider {
     return this.provider;
   }
 
+  getRegisteredContracts(): RegisteredContract[] {
+    return this.registry;
+  }
+
+  getContract(name: string): ethers.Contract | undefined {
+    return this.contracts.get(name);
+  }
+
   getNodeManagerContract(): ethers.Contract {
-    return this.nodeManagerContract;
+    return this.getContractByHandler('nodeManager') || this.contracts.get('nodeManager')!;
   }
 
   getStfuelContract(): ethers.Contract {
-    return this.stfuelContract;
+    return this.getContractByHandler('stfuel') || this.contracts.get('stfuel')!;
   }
 
   // Helper method to get contract state for snapshots
@@ -144,24 +86,22 @@ export class ContractManager {
   }> {
     const blockTag = blockNumber ? blockNumber : 'latest';
     
-    return this.retryWithFallback(async () => {
-      // Get sTFuel total supply
-      const stfuelTotalSupply = await this.stfuelContract.totalSupply({ blockTag });
-      
-      // Get TFuel backing amount (this would need to be implemented based on contract logic)
-      // For now, we'll assume it's the same as total supply or needs to be calculated differently
-      const tfuelBackingAmount = stfuelTotalSupply;
-      
-      // Get TFuel staked amount (this would need to be calculated from staking events or contract state)
-      // For now, we'll return 0 and calculate from events
-      const tfuelStakedAmount = BigInt(0);
-
-      return {
-        stfuelTotalSupply,
-        tfuelBackingAmount,
-        tfuelStakedAmount,
-      };
-    }, 'getContractState');
+    // Get sTFuel total supply
+    const stfuelTotalSupply = await this.getStfuelContract().totalSupply({ blockTag });
+    
+    // Get TFuel backing amount (this would need to be implemented based on contract logic)
+    // For now, we'll assume it's the same as total supply or needs to be calculated differently
+    const tfuelBackingAmount = stfuelTotalSupply;
+    
+    // Get TFuel staked amount (this would need to be calculated from staking events or contract state)
+    // For now, we'll return 0 and calculate from events
+    const tfuelStakedAmount = BigInt(0);
+
+    return {
+      stfuelTotalSupply,
+      tfuelBackingAmount,
+      tfuelStakedAmount,
+    };
   }
 
   // Get TFuel backing amount - only for live data, 0 for historical
@@ -173,17 +113,92 @@ export class ContractManager {
     
     const blockTag = blockNumber ? blockNumber : 'latest';
     
-    return this.retryWithFallback(async () => {
-      try {
-        // Try the primary method first
-        return await this.nodeManagerContract.getNetAssetsBackingShares({ blockTag });
-      } catch (error: any) {
-        // If it fails (e.g., out of gas), fallback to the safe method
-        console.warn('getNetAssetsBackingShares failed, using fallback:', error.message);
-        const safeResult = await this.nodeManagerContract.getNetAssetsBackingSharesSafe({ blockTag });
-        return safeResult.netAssets;
-      }
-    }, 'getTfuelBackingAmount');
+    // Both reads go out in one JSON-RPC batch, so the fallback costs no extra round-trip
+    const nodeManager = this.getNodeManagerContract();
+    const [primary, safe] = await Promise.allSettled([
+      nodeManager.getNetAssetsBackingShares({ blockTag }),
+      nodeManager.getNetAssetsBackingSharesSafe({ blockTag }),
+    ]);
+
+    if (primary.status === 'fulfilled') {
+      return primary.value;
+    }
+
+    // If it fails (e.g., out of gas), fallback to the safe method
+    console.warn('getNetAssetsBackingShares failed, using fallback:', primary.reason?.message);
+    if (safe.status === 'rejected') {
+      throw safe.reason;
+    }
+    return safe.value.netAssets;
+  }
+
+  /**
+   * sTFuel pps() and ppsSafe() at the end of a block, null where the call fails (pps()
+   * runs out of gas like getNetAssetsBackingShares). Throws only if both fail.
+   */
+  async getExchangeRates(blockNumber: number): Promise<{ pps: bigint | null; ppsSafe: bigint | null }> {
+    const blockTag = blockNumber;
+    const stfuel = this.getStfuelContract();
+
+    // Both reads go out in one JSON-RPC batch
+    const [pps, ppsSafe] = await Promise.allSettled([
+      stfuel.pps({ blockTag }),
+      stfuel.ppsSafe({ blockTag }),
+    ]);
+
+    if (pps.status === 'rejected' && ppsSafe.status === 'rejected') {
+      throw pps.reason;
+    }
+
+    return {
+      pps: pps.status === 'fulfilled' ? pps.value : null,
+      ppsSafe: ppsSafe.status === 'fulfilled' ? ppsSafe.value : null,
+    };
+  }
+
+  /**
+   * Backing, supply and exchange rates at the end of a past block - needs an archive
+   * node for blocks older than the node's pruning window
+   */
+  async getStateAtBlock(blockNumber: number): Promise<{
+    tfuelBackingAmount: bigint;
+    stfuelTotalSupply: bigint;
+    pps: bigint | null;
+    ppsSafe: bigint | null;
+  }> {
+    const blockTag = blockNumber;
+    const nodeManager = this.getNodeManagerContract();
+    const stfuel = this.getStfuelContract();
+
+    // All reads go out in one JSON-RPC batch
+    const [backing, backingSafe, stfuelTotalSupply, rates] = await Promise.allSettled([
+      nodeManager.getNetAssetsBackingShares({ blockTag }),
+      nodeManager.getNetAssetsBackingSharesSafe({ blockTag }),
+      stfuel.totalSupply({ blockTag }),
+      this.getExchangeRates(blockNumber),
+    ]);
+
+    if (stfuelTotalSupply.status === 'rejected') {
+      throw stfuelTotalSupply.reason;
+    }
+    if (rates.status === 'rejected') {
+      throw rates.reason;
+    }
+
+    let tfuelBackingAmount: bigint;
+    if (backing.status === 'fulfilled') {
+      tfuelBackingAmount = backing.value;
+    } else if (backingSafe.status === 'fulfilled') {
+      tfuelBackingAmount = backingSafe.value.netAssets;
+    } else {
+      throw backingSafe.reason;
+    }
+
+    return {
+      tfuelBackingAmount,
+      stfuelTotalSupply: stfuelTotalSupply.value,
+      ...rates.value,
+    };
   }
 }
 
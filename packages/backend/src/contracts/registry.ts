@@ -0,0 +1,183 @@
+import { ethers } from 'ethers';
+import { readFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { config } from '../config/environment';
+import { AbiVersion, adminMultisigAbiVersions, nodeManagerAbiVersions, referralNftAbiVersions, stfuelAbiVersions } from './abiVersions';
+
+/**
+ * Event handlers decide which raw event table a contract's logs are stored in and
+ * which normalized processing they feed:
+ * - nodeManager: node_manager_events, normalized into users / edge_nodes
+ * - stfuel: stfuel_events, normalized into users / redemption_queue
+ * - adminMultisig: contract_events, normalized into role_operations
+ * - referralNft: contract_events, normalized into referral_nfts / referral_nft_transfers
+ * - generic: contract_events, raw events only
+ */
+export type ContractHandler = 'nodeManager' | 'stfuel' | 'adminMultisig' | 'referralNft' | 'generic';
+
+const CONTRACT_HANDLERS: ContractHandler[] = ['nodeManager', 'stfuel', 'adminMultisig', 'referralNft', 'generic'];
+
+export interface RegisteredContract {
+  // Unique name, also used as the key of the contract's sync checkpoint
+  name: string;
+  address: string;
+  abiVersions: AbiVersion[];
+  startBlock: number;
+  handler: ContractHandler;
+}
+
+// Shape of an entry in the registry file / CONTRACT_REGISTRY env var
+interface ContractRegistryEntry {
+  name: string;
+  address: string;
+  // Path to an ABI JSON file (plain ABI array or a build artifact with an "abi" field)
+  abi?: string;
+  startBlock?: number;
+  handler?: ContractHandler;
+}
+
+function loadAbi(abiPath: string, baseDir: string): any[] {
+  const file = JSON.parse(readFileSync(resolve(baseDir, abiPath), 'utf8'));
+  const abi = Array.isArray(file) ? file : file.abi;
+
+  if (!Array.isArray(abi)) {
+    throw new Error(`ABI file ${abiPath} does not contain an ABI array`);
+  }
+
+  return abi;
+}
+
+function toRegisteredContract(entry: ContractRegistryEntry, baseDir: string, defaults?: RegisteredContract): RegisteredContract {
+  if (!entry.name) {
+    throw new Error('Contract registry entry is missing a name');
+  }
+
+  const address = entry.address || defaults?.address;
+  if (!address) {
+    throw new Error(`Contract registry entry ${entry.name} is missing an address`);
+  }
+
+  const handler = entry.handler || defaults?.handler || 'generic';
+  if (!CONTRACT_HANDLERS.includes(handler)) {
+    throw new Error(`Contract registry entry ${entry.name} has unknown handler ${handler}`);
+  }
+
+  let abiVersions = defaults?.abiVersions;
+  if (entry.abi) {
+    abiVersions = [{ version: 1, fromBlock: 0, abi: loadAbi(entry.abi, baseDir) }];
+  }
+  if (!abiVersions) {
+    throw new Error(`Contract registry entry ${entry.name} is missing an ABI path`);
+  }
+
+  return {
+    name: entry.name,
+    address: address.toLowerCase(),
+    abiVersions,
+    startBlock: entry.startBlock ?? defaults?.startBlock ?? config.startBlock,
+    handler,
+  };
+}
+
+/**
+ * Contracts indexed by the scanner. NodeManager, sTFuel, the admin multisig and the
+ * referral NFT come from NODE_MANAGER_ADDRESS / STFUEL_ADDRESS / ADMIN_MULTISIG_ADDRESS /
+ * REFERRAL_NFT_ADDRESS; entries from CONTRACT_REGISTRY_FILE or the CONTRACT_REGISTRY
+ * env var (JSON array) add contracts or override them by name.
+ * ABI paths are resolved relative to the registry file, or the working directory
+ * for the env var.
+ */
+export function loadContractRegistry(): RegisteredContract[] {
+  const contracts = new Map<string, RegisteredContract>();
+
+  if (config.nodeManagerAddress) {
+    contracts.set('nodeManager', {
+      name: 'nodeManager',
+      address: config.nodeManagerAddress.toLowerCase(),
+      abiVersions: nodeManagerAbiVersions,
+      startBlock: config.startBlock,
+      handler: 'nodeManager',
+    });
+  }
+
+  if (config.stfuelAddress) {
+    contracts.set('stfuel', {
+      name: 'stfuel',
+      address: config.stfuelAddress.toLowerCase(),
+      abiVersions: stfuelAbiVersions,
+      startBlock: config.startBlock,
+      handler: 'stfuel',
+    });
+  }
+
+  if (config.adminMultisigAddress) {
+    contracts.set('adminMultisig', {
+      name: 'adminMultisig',
+      address: config.adminMultisigAddress.toLowerCase(),
+      abiVersions: adminMultisigAbiVersions,
+      startBlock: config.startBlock,
+      handler: 'adminMultisig',
+    });
+  }
+
+  if (config.referralNftAddress) {
+    contracts.set('referralNft', {
+      name: 'referralNft',
+      address: config.referralNftAddress.toLowerCase(),
+      abiVersions: referralNftAbiVersions,
+      startBlock: config.startBlock,
+      handler: 'referralNft',
+    });
+  }
+
+  const sources: { entries: ContractRegistryEntry[]; baseDir: string }[] = [];
+  if (config.contractRegistryFile) {
+    const registryPath = resolve(config.contractRegistryFile);
+    sources.push({
+      entries: JSON.parse(readFileSync(registryPath, 'utf8')),
+      baseDir: dirname(registryPath),
+    });
+  }
+  if (config.contractRegistry) {
+    sources.push({
+      entries: JSON.parse(config.contractRegistry),
+      baseDir: process.cwd(),
+    });
+  }
+
+  for (const { entries, baseDir } of sources) {
+    if (!Array.isArray(entries)) {
+      throw new Error('Contract registry must be a JSON array');
+    }
+
+    for (const entry of entries) {
+      contracts.set(entry.name, toRegisteredContract(entry, baseDir, contracts.get(entry.name)));
+    }
+  }
+
+  const registered = Array.from(contracts.values());
+  const addresses = new Set<string>();
+  for (const contract of registered) {
+    if (addresses.has(contract.address)) {
+      throw new Error(`Contract address ${contract.address} is registered more than once`);
+    }
+    addresses.add(contract.address);
+  }
+
+  return registered;
+}
+
+export function getSyncStateKey(contract: RegisteredContract): string {
+  return `contract:${contract.name}`;
+}
+
+// topic0 of every event in any ABI version of the contract
+export function getEventTopics(contract: RegisteredContract): string[] {
+  const topics = new Set<string>();
+
+  for (const version of contract.abiVersions) {
+    new ethers.Interface(version.abi).forEachEvent(event => topics.add(event.topicHash));
+  }
+
+  return Array.from(topics);
+}
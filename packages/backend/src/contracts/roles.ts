@@ -0,0 +1,18 @@
+import { ethers } from 'ethers';
+
+// AccessControl roles of the protocol contracts, by role hash
+const ROLE_NAMES: { [role: string]: string } = {
+  [ethers.ZeroHash]: 'DEFAULT_ADMIN_ROLE',
+  [ethers.id('MANAGER_ROLE')]: 'MANAGER_ROLE',
+  [ethers.id('NODE_MANAGER_ROLE')]: 'NODE_MANAGER_ROLE',
+};
+
+export function getRoleName(role: string): string | null {
+  return ROLE_NAMES[role.toLowerCase()] ?? null;
+}
+
+// Role hash for a known role name, other values are taken as a role hash
+export function getRoleHash(role: string): string {
+  const hash = Object.keys(ROLE_NAMES).find(key => ROLE_NAMES[key] === role);
+  return hash ?? role.toLowerCase();
+}
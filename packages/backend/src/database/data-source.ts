@@ -13,6 +13,24 @@ import { Server } from './entities/Server';
 import { ManagedNode } from './entities/ManagedNode';
 import { AdminUser } from './entities/AdminUser';
 import { AdminSession } from './entities/AdminSession';
+import { BlockHeader } from './entities/BlockHeader';
+import { ContractEvent } from './entities/ContractEvent';
+import { DeadLetterEvent } from './entities/DeadLetterEvent';
+import { PendingEvent } from './entities/PendingEvent';
+import { RoleOperation } from './entities/RoleOperation';
+import { RoleMember } from './entities/RoleMember';
+import { RoleChange } from './entities/RoleChange';
+import { ProtocolParameter } from './entities/ProtocolParameter';
+import { Referral } from './entities/Referral';
+import { ReferralReward } from './entities/ReferralReward';
+import { ReferralNft } from './entities/ReferralNft';
+import { ReferralNftTransfer } from './entities/ReferralNftTransfer';
+import { NodeIncident } from './entities/NodeIncident';
+import { TreasuryFlow } from './entities/TreasuryFlow';
+import { SnapshotMetrics } from './entities/SnapshotMetrics';
+import { SnapshotBackfillJob } from './entities/SnapshotBackfillJob';
+import { SnapshotRollup } from './entities/SnapshotRollup';
+import { BalanceChange } from './entities/BalanceChange';
 
 // Determine migrations path based on whether we're running compiled code or source
 // __dirname will be dist/database when running compiled, src/database when using ts-node
@@ -24,7 +42,7 @@ const migrationsPath = isCompiled
 const AppDataSource = new DataSource({
   type: 'postgres',
   url: config.databaseUrl,
-  entities: [SyncState, NodeManagerEvent, StfuelEvent, HourlySnapshot, Address, EdgeNode, User, RedemptionQueue, Server, ManagedNode, AdminUser, AdminSession],
+  entities: [SyncState, NodeManagerEvent, StfuelEvent, HourlySnapshot, Address, EdgeNode, User, RedemptionQueue, Server, ManagedNode, AdminUser, AdminSession, BlockHeader, ContractEvent, DeadLetterEvent, PendingEvent, RoleOperation, RoleMember, RoleChange, ProtocolParameter, Referral, ReferralReward, ReferralNft, ReferralNftTransfer, NodeIncident, TreasuryFlow, SnapshotMetrics, SnapshotBackfillJob, SnapshotRollup, BalanceChange],
   migrations: [migrationsPath],
   synchronize: false, // Use migrations instead
   logging: config.nodeEnv === 'development',
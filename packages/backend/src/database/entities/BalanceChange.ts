@@ -0,0 +1,37 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index, Unique } from 'typeorm';
+
+// sTFuel balance of an address after each Transfer moving it
+@Entity('balance_changes')
+@Index(['address', 'blockNumber', 'logIndex'])
+@Index(['address', 'timestamp'])
+@Unique(['address', 'blockNumber', 'transactionHash', 'logIndex'])
+export class BalanceChange {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  // Lowercase holder address, never the zero address
+  @Column()
+  address: string;
+
+  // Signed change of the balance, 0 for a transfer to self
+  @Column({ type: 'numeric', precision: 78, scale: 0 })
+  amount: string;
+
+  @Column({ type: 'numeric', precision: 78, scale: 0 })
+  balance: string;
+
+  @Column({ type: 'bigint' })
+  blockNumber: string;
+
+  @Column({ type: 'int' })
+  timestamp: number;
+
+  @Column()
+  transactionHash: string;
+
+  @Column()
+  logIndex: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
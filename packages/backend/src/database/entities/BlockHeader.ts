@@ -0,0 +1,19 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn } from 'typeorm';
+
+@Entity('block_headers')
+export class BlockHeader {
+  @PrimaryColumn({ type: 'bigint' })
+  blockNumber: string;
+
+  @Column({ length: 66 })
+  blockHash: string;
+
+  @Column({ length: 66 })
+  parentHash: string;
+
+  @Column({ type: 'int' })
+  timestamp: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
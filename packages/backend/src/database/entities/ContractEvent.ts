@@ -0,0 +1,54 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index, Unique } from 'typeorm';
+
+// Raw events of registry contracts using the generic or adminMultisig handler
+@Entity('contract_events')
+@Index(['blockNumber', 'transactionIndex', 'logIndex'])
+@Index(['contractName', 'eventName'])
+@Index(['address'])
+@Unique(['blockNumber', 'transactionHash', 'logIndex'])
+export class ContractEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  contractName: string;
+
+  @Column()
+  eventName: string;
+
+  @Column({ default: true })
+  decoded: boolean;
+
+  @Column({ type: 'int', nullable: true })
+  abiVersion: number | null;
+
+  @Column({ type: 'bigint' })
+  blockNumber: string;
+
+  @Column()
+  transactionHash: string;
+
+  @Column()
+  transactionIndex: number;
+
+  @Column()
+  logIndex: number;
+
+  @Column({ type: 'int' })
+  timestamp: number;
+
+  @Column()
+  address: string;
+
+  @Column({ type: 'jsonb', nullable: true })
+  args: any;
+
+  @Column({ type: 'text', nullable: true })
+  data: string;
+
+  @Column({ type: 'text', array: true, nullable: true })
+  topics: string[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
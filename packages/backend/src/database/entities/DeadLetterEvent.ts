@@ -0,0 +1,46 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index, Unique } from 'typeorm';
+
+// Raw events whose normalized processing failed, kept until a retry succeeds
+@Entity('dead_letter_events')
+@Index(['blockNumber', 'logIndex'])
+@Unique(['handler', 'blockNumber', 'transactionHash', 'logIndex'])
+export class DeadLetterEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  // Contract handler of the event - nodeManager (node_manager_events), stfuel (stfuel_events)
+  // or adminMultisig (contract_events)
+  @Column()
+  handler: string;
+
+  // Id of the raw event row, null if it was not known when the failure was recorded
+  @Column({ type: 'int', nullable: true })
+  eventId: number | null;
+
+  @Column()
+  eventName: string;
+
+  @Column({ type: 'bigint' })
+  blockNumber: string;
+
+  @Column()
+  transactionHash: string;
+
+  @Column()
+  logIndex: number;
+
+  @Column({ type: 'text' })
+  error: string;
+
+  @Column({ type: 'text', nullable: true })
+  stack: string | null;
+
+  @Column({ default: 1 })
+  attempts: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
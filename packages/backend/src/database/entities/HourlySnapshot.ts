@@ -37,6 +37,14 @@ export class HourlySnapshot {
   @Column({ type: 'numeric', precision: 78, scale: 0 })
   totalKeeperTipsPaid: string;
 
+  // sTFuel.pps() and ppsSafe() at the block (TFuel per sTFuel scaled by 1e18) - read by
+  // live snapshots and the snapshot backfill, null where the call failed or was not made
+  @Column({ type: 'numeric', precision: 78, scale: 0, nullable: true })
+  pps: string | null;
+
+  @Column({ type: 'numeric', precision: 78, scale: 0, nullable: true })
+  ppsSafe: string | null;
+
   @CreateDateColumn()
   createdAt: Date;
 }
@@ -0,0 +1,49 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index, Unique } from 'typeorm';
+
+// One faulty episode of an edge node, from NodeMarkedAsFaulty until FaultyNodeRecovered
+@Entity('node_incidents')
+@Index(['nodeAddress'])
+@Index(['recoveryBlock'])
+@Unique(['faultyBlock', 'faultyTransactionHash', 'faultyLogIndex'])
+export class NodeIncident {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  nodeAddress: string;
+
+  // TFuel staked on the node when its unstake failed
+  @Column({ type: 'numeric', precision: 78, scale: 0 })
+  stakedAmount: string;
+
+  @Column({ type: 'bigint' })
+  faultyBlock: string;
+
+  @Column({ type: 'int' })
+  faultyTimestamp: number;
+
+  @Column()
+  faultyTransactionHash: string;
+
+  @Column()
+  faultyLogIndex: number;
+
+  // TFuel moved to the unstake queue by the successful retryFaultyNodeUnstake
+  @Column({ type: 'numeric', precision: 78, scale: 0, nullable: true })
+  recoveredAmount: string | null;
+
+  @Column({ type: 'bigint', nullable: true })
+  recoveryBlock: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  recoveryTimestamp: number | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  recoveryTransactionHash: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
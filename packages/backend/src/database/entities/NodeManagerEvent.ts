@@ -12,6 +12,12 @@ export class NodeManagerEvent {
   @Column()
   eventName: string;
 
+  @Column({ default: true })
+  decoded: boolean;
+
+  @Column({ type: 'int', nullable: true })
+  abiVersion: number | null;
+
   @Column({ type: 'bigint' })
   blockNumber: string;
 
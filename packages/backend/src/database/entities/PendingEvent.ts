@@ -0,0 +1,59 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index, Unique } from 'typeorm';
+
+// Events of blocks that do not have enough confirmations to be indexed yet. The
+// table is replaced on every refresh, so reorganized blocks simply disappear.
+@Entity('pending_events')
+@Index(['contractName', 'blockNumber'])
+@Unique(['blockNumber', 'transactionHash', 'logIndex'])
+export class PendingEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  contractName: string;
+
+  @Column()
+  handler: string;
+
+  @Column()
+  eventName: string;
+
+  @Column({ default: true })
+  decoded: boolean;
+
+  @Column({ type: 'int', nullable: true })
+  abiVersion: number | null;
+
+  @Column({ type: 'bigint' })
+  blockNumber: string;
+
+  @Column({ length: 66 })
+  blockHash: string;
+
+  @Column()
+  transactionHash: string;
+
+  @Column()
+  transactionIndex: number;
+
+  @Column()
+  logIndex: number;
+
+  @Column({ type: 'int' })
+  timestamp: number;
+
+  @Column()
+  address: string;
+
+  @Column({ type: 'jsonb', nullable: true })
+  args: any;
+
+  @Column({ type: 'text', nullable: true })
+  data: string;
+
+  @Column({ type: 'text', array: true, nullable: true })
+  topics: string[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
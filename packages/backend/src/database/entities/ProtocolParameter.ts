@@ -0,0 +1,58 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index, Unique } from 'typeorm';
+
+export enum ProtocolParameterName {
+  WITHDRAW_FEE_BPS = 'withdrawFeeBps',
+  KEEPER_TIP_BPS = 'keeperTipBps',
+  KEEPER_TIP_MAX = 'keeperTipMax',
+  STAKING_PAUSED = 'stakingPaused',
+  MAX_NODES_PER_STAKING_CALL = 'maxNodesPerStakingCall',
+  MINT_FEE_BPS = 'mintFeeBps',
+  DIRECT_REDEEM_FEE_BPS = 'directRedeemFeeBps',
+  MINT_PAUSED = 'mintPaused'
+}
+
+// Initial values declared in the contracts, in effect until the first change event.
+// withdrawFeeBps has no initial value in the current NodeManager.
+export const PROTOCOL_PARAMETER_DEFAULTS: Partial<Record<ProtocolParameterName, string>> = {
+  [ProtocolParameterName.KEEPER_TIP_BPS]: '5',
+  [ProtocolParameterName.KEEPER_TIP_MAX]: '50000000000000000000',
+  [ProtocolParameterName.STAKING_PAUSED]: 'false',
+  [ProtocolParameterName.MAX_NODES_PER_STAKING_CALL]: '50',
+  [ProtocolParameterName.MINT_FEE_BPS]: '100',
+  [ProtocolParameterName.DIRECT_REDEEM_FEE_BPS]: '200',
+  [ProtocolParameterName.MINT_PAUSED]: 'false',
+};
+
+// History of NodeManager and sTFuel parameter changes, one row per changed parameter
+@Entity('protocol_parameters')
+@Index(['parameter', 'blockNumber'])
+@Unique(['blockNumber', 'transactionHash', 'logIndex', 'parameter'])
+export class ProtocolParameter {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  contractAddress: string;
+
+  @Column({ type: 'enum', enum: ProtocolParameterName })
+  parameter: ProtocolParameterName;
+
+  // Decimal string for numbers, 'true' / 'false' for pause states
+  @Column()
+  value: string;
+
+  @Column({ type: 'bigint' })
+  blockNumber: string;
+
+  @Column({ type: 'int' })
+  timestamp: number;
+
+  @Column()
+  transactionHash: string;
+
+  @Column()
+  logIndex: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -1,15 +1,20 @@
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
 import { Address } from './Address';
 
+// pending -> unlockable (unlock block indexed) -> credited (CreditAssigned) -> claimed (CreditsClaimed).
+// Claimed also follows pending / unlockable directly when the head of the queue claims itself.
 export enum RedemptionStatus {
   PENDING = 'pending',
-  CREDITED = 'credited'
+  UNLOCKABLE = 'unlockable',
+  CREDITED = 'credited',
+  CLAIMED = 'claimed'
 }
 
 @Entity('redemption_queue')
 @Index(['userAddressId'])
 @Index(['status'])
 @Index(['unlockBlockNumber'])
+@Index(['status', 'unlockBlockNumber'])
 export class RedemptionQueue {
   @PrimaryGeneratedColumn()
   id: number;
@@ -58,6 +63,15 @@ export class RedemptionQueue {
   @Column({ type: 'int', nullable: true })
   creditedTimestamp: number;
 
+  @Column({ type: 'bigint', nullable: true })
+  claimedBlock: string;
+
+  @Column({ type: 'int', nullable: true })
+  claimedTimestamp: number;
+
+  @Column({ type: 'varchar', nullable: true })
+  claimedTransactionHash: string;
+
   @CreateDateColumn()
   createdAt: Date;
 
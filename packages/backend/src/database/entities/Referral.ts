@@ -0,0 +1,43 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index, Unique } from 'typeorm';
+
+// Payout address of each referral NFT id over time, one row per ReferralAddressSet.
+// The current address of a referral id is the row without replacedBlock.
+@Entity('referrals')
+@Index(['referralId'])
+@Index(['payoutAddress'])
+@Unique(['setBlock', 'setTransactionHash', 'setLogIndex'])
+export class Referral {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'numeric', precision: 78, scale: 0 })
+  referralId: string;
+
+  @Column()
+  payoutAddress: string;
+
+  @Column({ type: 'bigint' })
+  setBlock: string;
+
+  @Column({ type: 'int' })
+  setTimestamp: number;
+
+  @Column()
+  setTransactionHash: string;
+
+  @Column()
+  setLogIndex: number;
+
+  // Block of the ReferralAddressSet that replaced this address
+  @Column({ type: 'bigint', nullable: true })
+  replacedBlock: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  replacedTimestamp: number | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,41 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index, Unique } from 'typeorm';
+
+// Current owner of each referral NFT token - burned tokens are removed
+@Entity('referral_nfts')
+@Index(['owner'])
+@Unique(['contractAddress', 'tokenId'])
+export class ReferralNft {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  contractAddress: string;
+
+  @Column({ type: 'numeric', precision: 78, scale: 0 })
+  tokenId: string;
+
+  @Column()
+  owner: string;
+
+  // Null for tokens minted before the indexed range
+  @Column({ type: 'bigint', nullable: true })
+  mintedBlock: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  mintedTimestamp: number | null;
+
+  @Column({ type: 'bigint' })
+  lastTransferBlock: string;
+
+  @Column({ type: 'int' })
+  lastTransferTimestamp: number;
+
+  @Column()
+  lastTransferTransactionHash: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,39 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index, Unique } from 'typeorm';
+
+// Transfer events of the referral NFT, including mints (from zero) and burns (to zero)
+@Entity('referral_nft_transfers')
+@Index(['contractAddress', 'tokenId'])
+@Index(['from'])
+@Index(['to'])
+@Unique(['blockNumber', 'transactionHash', 'logIndex'])
+export class ReferralNftTransfer {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  contractAddress: string;
+
+  @Column({ type: 'numeric', precision: 78, scale: 0 })
+  tokenId: string;
+
+  @Column()
+  from: string;
+
+  @Column()
+  to: string;
+
+  @Column({ type: 'bigint' })
+  blockNumber: string;
+
+  @Column({ type: 'int' })
+  timestamp: number;
+
+  @Column()
+  transactionHash: string;
+
+  @Column()
+  logIndex: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
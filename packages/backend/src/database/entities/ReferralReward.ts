@@ -0,0 +1,50 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index, Unique } from 'typeorm';
+
+// ReferralRewarded events with the mint they were paid for (same transaction)
+@Entity('referral_rewards')
+@Index(['referralId', 'timestamp'])
+@Index(['referrer'])
+@Unique(['blockNumber', 'transactionHash', 'logIndex'])
+export class ReferralReward {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'numeric', precision: 78, scale: 0 })
+  referralId: string;
+
+  // Payout address the reward shares were minted to
+  @Column()
+  referrer: string;
+
+  @Column({ type: 'numeric', precision: 78, scale: 0 })
+  rewardShares: string;
+
+  // Originating Minted event, null if it is not stored
+  @Column({ type: 'varchar', nullable: true })
+  minter: string | null;
+
+  @Column({ type: 'numeric', precision: 78, scale: 0, nullable: true })
+  mintTfuelIn: string | null;
+
+  // Protocol fee of the mint after the referral reward was taken out
+  @Column({ type: 'numeric', precision: 78, scale: 0, nullable: true })
+  mintFeeTFuel: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  mintLogIndex: number | null;
+
+  @Column({ type: 'bigint' })
+  blockNumber: string;
+
+  @Column({ type: 'int' })
+  timestamp: number;
+
+  @Column()
+  transactionHash: string;
+
+  @Column()
+  logIndex: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
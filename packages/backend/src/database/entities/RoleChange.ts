@@ -0,0 +1,55 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index, Unique } from 'typeorm';
+
+export enum RoleChangeAction {
+  GRANTED = 'granted',
+  REVOKED = 'revoked',
+  ADMIN_CHANGED = 'adminChanged'
+}
+
+// History of RoleGranted, RoleRevoked and RoleAdminChanged events of the indexed contracts
+@Entity('role_changes')
+@Index(['contractAddress', 'role'])
+@Index(['account'])
+@Unique(['blockNumber', 'transactionHash', 'logIndex'])
+export class RoleChange {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  contractAddress: string;
+
+  @Column()
+  role: string;
+
+  @Column({ type: 'enum', enum: RoleChangeAction })
+  action: RoleChangeAction;
+
+  // Granted / revoked account, null for admin role changes
+  @Column({ type: 'varchar', nullable: true })
+  account: string | null;
+
+  // Caller of grantRole / revokeRole / renounceRole
+  @Column({ type: 'varchar', nullable: true })
+  sender: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  previousAdminRole: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  newAdminRole: string | null;
+
+  @Column({ type: 'bigint' })
+  blockNumber: string;
+
+  @Column({ type: 'int' })
+  timestamp: number;
+
+  @Column()
+  transactionHash: string;
+
+  @Column()
+  logIndex: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
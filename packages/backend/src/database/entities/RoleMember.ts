@@ -0,0 +1,37 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index, Unique } from 'typeorm';
+
+// Current AccessControl role holders of each indexed contract - revoked roles are removed
+@Entity('role_members')
+@Index(['account'])
+@Unique(['contractAddress', 'role', 'account'])
+export class RoleMember {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  contractAddress: string;
+
+  @Column()
+  role: string;
+
+  @Column()
+  account: string;
+
+  @Column()
+  grantedBy: string;
+
+  @Column({ type: 'bigint' })
+  grantedBlock: string;
+
+  @Column({ type: 'int' })
+  grantedTimestamp: number;
+
+  @Column()
+  grantedTransactionHash: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
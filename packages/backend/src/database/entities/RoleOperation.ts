@@ -0,0 +1,89 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index, Unique } from 'typeorm';
+
+export enum RoleOperationType {
+  GRANT = 'grant',
+  REVOKE = 'revoke'
+}
+
+export enum RoleOperationStatus {
+  PENDING = 'pending',
+  EXECUTED = 'executed',
+  CANCELLED = 'cancelled'
+}
+
+// Grant / revoke operations proposed on the admin multisig, with their approvals
+@Entity('role_operations')
+@Index(['status'])
+@Index(['account'])
+@Index(['target'])
+@Unique(['multisigAddress', 'opId'])
+export class RoleOperation {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  multisigAddress: string;
+
+  @Column({ type: 'bigint' })
+  opId: string;
+
+  @Column({ type: 'enum', enum: RoleOperationType })
+  opType: RoleOperationType;
+
+  @Column()
+  role: string;
+
+  @Column()
+  account: string;
+
+  // AccessControl contract the role is granted / revoked on
+  @Column()
+  target: string;
+
+  // Null if the submission happened before the indexed range
+  @Column({ type: 'varchar', nullable: true })
+  proposer: string | null;
+
+  @Column({ type: 'int', default: 0 })
+  approvals: number;
+
+  @Column({ type: 'text', array: true, default: () => "'{}'" })
+  approvers: string[];
+
+  @Column({
+    type: 'enum',
+    enum: RoleOperationStatus,
+    default: RoleOperationStatus.PENDING
+  })
+  status: RoleOperationStatus;
+
+  @Column({ type: 'bigint', nullable: true })
+  submittedBlock: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  submittedTimestamp: number | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  submittedTransactionHash: string | null;
+
+  @Column({ type: 'bigint', nullable: true })
+  executedBlock: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  executedTimestamp: number | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  executedTransactionHash: string | null;
+
+  @Column({ type: 'bigint', nullable: true })
+  cancelledBlock: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  cancelledTimestamp: number | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,54 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+
+// Spacing of the snapshots written by a backfill
+export enum SnapshotGranularity {
+  FIFTEEN_MINUTES = '15m',
+  HOUR = '1h',
+  DAY = '1d'
+}
+
+export enum SnapshotBackfillStatus {
+  // Started, or interrupted and waiting to be resumed
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+@Entity('snapshot_backfill_jobs')
+export class SnapshotBackfillJob {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'enum', enum: SnapshotGranularity })
+  granularity: SnapshotGranularity;
+
+  // Unix timestamps of the range (inclusive)
+  @Column({ type: 'int' })
+  fromTimestamp: number;
+
+  @Column({ type: 'int' })
+  toTimestamp: number;
+
+  // Next slot to write - the job resumes from here
+  @Column({ type: 'int' })
+  nextTimestamp: number;
+
+  // Block of the last written slot, lower bound of the next block search
+  @Column({ type: 'bigint', nullable: true })
+  lastBlockNumber: string | null;
+
+  @Column({ type: 'int', default: 0 })
+  snapshotsWritten: number;
+
+  @Column({ type: 'enum', enum: SnapshotBackfillStatus, default: SnapshotBackfillStatus.RUNNING })
+  status: SnapshotBackfillStatus;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
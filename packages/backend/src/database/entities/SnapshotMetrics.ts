@@ -0,0 +1,38 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+
+// Running totals of the event-derived snapshot metrics, updated as each event is applied
+@Entity('snapshot_metrics')
+export class SnapshotMetrics {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ unique: true })
+  key: string;
+
+  @Column({ type: 'numeric', precision: 78, scale: 0, default: '0' })
+  tfuelStakedAmount: string;
+
+  @Column({ type: 'numeric', precision: 78, scale: 0, default: '0' })
+  stfuelTotalSupply: string;
+
+  @Column({ default: 0 })
+  currentHoldersCount: number;
+
+  @Column({ default: 0 })
+  historicalHoldersCount: number;
+
+  @Column({ type: 'numeric', precision: 78, scale: 0, default: '0' })
+  totalReferralRewards: string;
+
+  @Column({ default: 0 })
+  edgeNodesCount: number;
+
+  @Column({ type: 'numeric', precision: 78, scale: 0, default: '0' })
+  totalKeeperTipsPaid: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,87 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Unique } from 'typeorm';
+
+// Period length of a rollup - named after the Postgres date_trunc field
+export enum SnapshotResolution {
+  HOUR = 'hour',
+  DAY = 'day',
+  WEEK = 'week',
+  MONTH = 'month'
+}
+
+@Entity('snapshot_rollups')
+@Unique(['resolution', 'periodStart'])
+export class SnapshotRollup {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'enum', enum: SnapshotResolution })
+  resolution: SnapshotResolution;
+
+  // Unix timestamps of the UTC period [periodStart, periodEnd) - weeks start on Monday
+  @Column({ type: 'int' })
+  periodStart: number;
+
+  @Column({ type: 'int' })
+  periodEnd: number;
+
+  @Column({ type: 'int' })
+  snapshotCount: number;
+
+  // Blocks of the first and last snapshot of the period
+  @Column({ type: 'bigint' })
+  openBlockNumber: string;
+
+  @Column({ type: 'bigint' })
+  closeBlockNumber: string;
+
+  // Exchange rate in TFuel per sTFuel scaled by 1e18 - the snapshot pps, or backing / supply
+  // without it; null while the supply is 0
+  @Column({ type: 'numeric', precision: 78, scale: 0, nullable: true })
+  openRate: string | null;
+
+  @Column({ type: 'numeric', precision: 78, scale: 0, nullable: true })
+  closeRate: string | null;
+
+  @Column({ type: 'numeric', precision: 78, scale: 0, nullable: true })
+  minRate: string | null;
+
+  @Column({ type: 'numeric', precision: 78, scale: 0, nullable: true })
+  maxRate: string | null;
+
+  @Column({ type: 'numeric', precision: 78, scale: 0 })
+  openSupply: string;
+
+  @Column({ type: 'numeric', precision: 78, scale: 0 })
+  closeSupply: string;
+
+  @Column({ type: 'numeric', precision: 78, scale: 0 })
+  minSupply: string;
+
+  @Column({ type: 'numeric', precision: 78, scale: 0 })
+  maxSupply: string;
+
+  // Remaining snapshot metrics as of the last snapshot of the period
+  @Column({ type: 'numeric', precision: 78, scale: 0 })
+  tfuelBackingAmount: string;
+
+  @Column({ type: 'numeric', precision: 78, scale: 0 })
+  tfuelStakedAmount: string;
+
+  @Column({ type: 'int' })
+  currentHoldersCount: number;
+
+  @Column({ type: 'int' })
+  historicalHoldersCount: number;
+
+  @Column({ type: 'numeric', precision: 78, scale: 0 })
+  totalReferralRewards: string;
+
+  @Column({ type: 'int' })
+  edgeNodesCount: number;
+
+  @Column({ type: 'numeric', precision: 78, scale: 0 })
+  totalKeeperTipsPaid: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
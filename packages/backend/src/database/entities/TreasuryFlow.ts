@@ -0,0 +1,62 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index, Unique } from 'typeorm';
+
+// Classification of the TFuel flowing into NodeManager
+export enum TreasuryFlowType {
+  // TFuelReceived from a configured reward sender (STAKING_REWARD_SENDERS) not matching
+  // an unstake - rewards of Theta's native staking
+  STAKING_REWARD = 'staking_reward',
+  // TFuelReceived of the amount of a matured TFuelUnstaked
+  UNSTAKE_RETURN = 'unstake_return',
+  // Minted (deposited through depositTFuel) or TFuelReceived from sTFuel
+  USER_DEPOSIT = 'user_deposit',
+  // TFuelReceived with isFallback
+  FALLBACK = 'fallback',
+  // Queue tips charged to users but not credited to the keeper (KeeperTipSurplus)
+  KEEPER_TIP_SURPLUS = 'keeper_tip_surplus',
+  // Any other TFuelReceived - plain transfers, or returns no single unstake matches
+  UNCLASSIFIED = 'unclassified'
+}
+
+@Entity('treasury_flows')
+@Index(['flowType', 'timestamp'])
+@Index(['unstakeTransactionHash', 'unstakeLogIndex'])
+@Unique(['blockNumber', 'transactionHash', 'logIndex'])
+export class TreasuryFlow {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'enum', enum: TreasuryFlowType })
+  flowType: TreasuryFlowType;
+
+  @Column({ type: 'numeric', precision: 78, scale: 0 })
+  amount: string;
+
+  // Sender of TFuelReceived, the minter of Minted, null for KeeperTipSurplus
+  @Column({ type: 'varchar', nullable: true })
+  from: string | null;
+
+  // TFuelUnstaked an unstake return was matched with
+  @Column({ type: 'varchar', nullable: true })
+  nodeAddress: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  unstakeTransactionHash: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  unstakeLogIndex: number | null;
+
+  @Column({ type: 'bigint' })
+  blockNumber: string;
+
+  @Column({ type: 'int' })
+  timestamp: number;
+
+  @Column()
+  transactionHash: string;
+
+  @Column()
+  logIndex: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -56,6 +56,10 @@ export class User {
   @Column({ type: 'int', nullable: true })
   lastActivityTimestamp: number;
 
+  // First sTFuel Transfer to or from the address - set once it counts as a historical holder
+  @Column({ type: 'bigint', nullable: true })
+  firstTransferBlock: string | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
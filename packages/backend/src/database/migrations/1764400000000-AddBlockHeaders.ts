@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBlockHeaders1764400000000 implements MigrationInterface {
+  name = 'AddBlockHeaders1764400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create block_headers table used for chain reorganization detection
+    await queryRunner.query(`
+      CREATE TABLE "block_headers" (
+        "blockNumber" bigint NOT NULL,
+        "blockHash" character varying(66) NOT NULL,
+        "parentHash" character varying(66) NOT NULL,
+        "timestamp" integer NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_block_headers" PRIMARY KEY ("blockNumber")
+      )
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "block_headers"`);
+  }
+}
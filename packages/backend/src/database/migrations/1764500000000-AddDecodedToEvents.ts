@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddDecodedToEvents1764500000000 implements MigrationInterface {
+  name = 'AddDecodedToEvents1764500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Flag events whose topic could not be decoded with the contract ABI
+    await queryRunner.query(`ALTER TABLE "node_manager_events" ADD COLUMN "decoded" boolean NOT NULL DEFAULT true`);
+    await queryRunner.query(`ALTER TABLE "stfuel_events" ADD COLUMN "decoded" boolean NOT NULL DEFAULT true`);
+
+    // Events previously stored without a known topic
+    await queryRunner.query(`UPDATE "node_manager_events" SET "decoded" = false WHERE "eventName" = 'Unknown'`);
+    await queryRunner.query(`UPDATE "stfuel_events" SET "decoded" = false WHERE "eventName" = 'Unknown'`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "stfuel_events" DROP COLUMN "decoded"`);
+    await queryRunner.query(`ALTER TABLE "node_manager_events" DROP COLUMN "decoded"`);
+  }
+}
@@ -0,0 +1,16 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddAbiVersionToEvents1764600000000 implements MigrationInterface {
+  name = 'AddAbiVersionToEvents1764600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Record which contract ABI version decoded each event
+    await queryRunner.query(`ALTER TABLE "node_manager_events" ADD COLUMN "abiVersion" integer`);
+    await queryRunner.query(`ALTER TABLE "stfuel_events" ADD COLUMN "abiVersion" integer`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "stfuel_events" DROP COLUMN "abiVersion"`);
+    await queryRunner.query(`ALTER TABLE "node_manager_events" DROP COLUMN "abiVersion"`);
+  }
+}
@@ -0,0 +1,55 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddContractRegistry1764700000000 implements MigrationInterface {
+  name = 'AddContractRegistry1764700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create contract_events table for registry contracts without a dedicated event table
+    await queryRunner.query(`
+      CREATE TABLE "contract_events" (
+        "id" SERIAL NOT NULL,
+        "contractName" character varying NOT NULL,
+        "eventName" character varying NOT NULL,
+        "decoded" boolean NOT NULL DEFAULT true,
+        "abiVersion" integer,
+        "blockNumber" bigint NOT NULL,
+        "transactionHash" character varying NOT NULL,
+        "transactionIndex" integer NOT NULL,
+        "logIndex" integer NOT NULL,
+        "timestamp" integer NOT NULL,
+        "address" character varying NOT NULL,
+        "args" jsonb,
+        "data" text,
+        "topics" text array,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_contract_events_block_tx_log" UNIQUE ("blockNumber", "transactionHash", "logIndex"),
+        CONSTRAINT "PK_contract_events" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_contract_events_block_tx_log" ON "contract_events" ("blockNumber", "transactionIndex", "logIndex")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_contract_events_contract_event" ON "contract_events" ("contractName", "eventName")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_contract_events_address" ON "contract_events" ("address")
+    `);
+
+    // NodeManager and sTFuel were scanned together so far - seed their per-contract
+    // checkpoints from the main checkpoint so they are not re-scanned
+    await queryRunner.query(`
+      INSERT INTO "sync_state" ("key", "lastBlockNumber")
+      SELECT 'contract:' || "name", "lastBlockNumber"
+      FROM "sync_state", (VALUES ('nodeManager'), ('stfuel')) AS "contract"("name")
+      WHERE "sync_state"."key" = 'main'
+      ON CONFLICT ("key") DO NOTHING
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DELETE FROM "sync_state" WHERE "key" LIKE 'contract:%'`);
+    await queryRunner.query(`DROP TABLE "contract_events"`);
+  }
+}
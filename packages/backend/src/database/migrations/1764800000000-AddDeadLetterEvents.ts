@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddDeadLetterEvents1764800000000 implements MigrationInterface {
+  name = 'AddDeadLetterEvents1764800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create dead_letter_events table for events whose normalized processing failed
+    await queryRunner.query(`
+      CREATE TABLE "dead_letter_events" (
+        "id" SERIAL NOT NULL,
+        "handler" character varying NOT NULL,
+        "eventId" integer,
+        "eventName" character varying NOT NULL,
+        "blockNumber" bigint NOT NULL,
+        "transactionHash" character varying NOT NULL,
+        "logIndex" integer NOT NULL,
+        "error" text NOT NULL,
+        "stack" text,
+        "attempts" integer NOT NULL DEFAULT 1,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_dead_letter_events_handler_block_tx_log" UNIQUE ("handler", "blockNumber", "transactionHash", "logIndex"),
+        CONSTRAINT "PK_dead_letter_events" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_dead_letter_events_block_log" ON "dead_letter_events" ("blockNumber", "logIndex")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "dead_letter_events"`);
+  }
+}
@@ -0,0 +1,40 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPendingEvents1764900000000 implements MigrationInterface {
+  name = 'AddPendingEvents1764900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create pending_events table for events of blocks below the confirmation depth
+    await queryRunner.query(`
+      CREATE TABLE "pending_events" (
+        "id" SERIAL NOT NULL,
+        "contractName" character varying NOT NULL,
+        "handler" character varying NOT NULL,
+        "eventName" character varying NOT NULL,
+        "decoded" boolean NOT NULL DEFAULT true,
+        "abiVersion" integer,
+        "blockNumber" bigint NOT NULL,
+        "blockHash" character varying(66) NOT NULL,
+        "transactionHash" character varying NOT NULL,
+        "transactionIndex" integer NOT NULL,
+        "logIndex" integer NOT NULL,
+        "timestamp" integer NOT NULL,
+        "address" character varying NOT NULL,
+        "args" jsonb,
+        "data" text,
+        "topics" text array,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_pending_events_block_tx_log" UNIQUE ("blockNumber", "transactionHash", "logIndex"),
+        CONSTRAINT "PK_pending_events" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_pending_events_contract_block" ON "pending_events" ("contractName", "blockNumber")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "pending_events"`);
+  }
+}
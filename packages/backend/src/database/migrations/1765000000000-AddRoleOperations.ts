@@ -0,0 +1,52 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRoleOperations1765000000000 implements MigrationInterface {
+  name = 'AddRoleOperations1765000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create role_operations table for grant / revoke operations of the admin multisig
+    await queryRunner.query(`
+      CREATE TABLE "role_operations" (
+        "id" SERIAL NOT NULL,
+        "multisigAddress" character varying NOT NULL,
+        "opId" bigint NOT NULL,
+        "opType" character varying NOT NULL,
+        "role" character varying NOT NULL,
+        "account" character varying NOT NULL,
+        "target" character varying NOT NULL,
+        "proposer" character varying,
+        "approvals" integer NOT NULL DEFAULT 0,
+        "approvers" text array NOT NULL DEFAULT '{}',
+        "status" character varying NOT NULL DEFAULT 'pending',
+        "submittedBlock" bigint,
+        "submittedTimestamp" integer,
+        "submittedTransactionHash" character varying,
+        "executedBlock" bigint,
+        "executedTimestamp" integer,
+        "executedTransactionHash" character varying,
+        "cancelledBlock" bigint,
+        "cancelledTimestamp" integer,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_role_operations_multisig_op" UNIQUE ("multisigAddress", "opId"),
+        CONSTRAINT "PK_role_operations" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_role_operations_status" ON "role_operations" ("status")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_role_operations_account" ON "role_operations" ("account")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_role_operations_target" ON "role_operations" ("target")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "role_operations"`);
+  }
+}
@@ -0,0 +1,63 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRoleMembership1765100000000 implements MigrationInterface {
+  name = 'AddRoleMembership1765100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create role_members table for the current AccessControl role holders
+    await queryRunner.query(`
+      CREATE TABLE "role_members" (
+        "id" SERIAL NOT NULL,
+        "contractAddress" character varying NOT NULL,
+        "role" character varying NOT NULL,
+        "account" character varying NOT NULL,
+        "grantedBy" character varying NOT NULL,
+        "grantedBlock" bigint NOT NULL,
+        "grantedTimestamp" integer NOT NULL,
+        "grantedTransactionHash" character varying NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_role_members_contract_role_account" UNIQUE ("contractAddress", "role", "account"),
+        CONSTRAINT "PK_role_members" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_role_members_account" ON "role_members" ("account")
+    `);
+
+    // Create role_changes table for the grant / revoke / admin change history
+    await queryRunner.query(`
+      CREATE TABLE "role_changes" (
+        "id" SERIAL NOT NULL,
+        "contractAddress" character varying NOT NULL,
+        "role" character varying NOT NULL,
+        "action" character varying NOT NULL,
+        "account" character varying,
+        "sender" character varying,
+        "previousAdminRole" character varying,
+        "newAdminRole" character varying,
+        "blockNumber" bigint NOT NULL,
+        "timestamp" integer NOT NULL,
+        "transactionHash" character varying NOT NULL,
+        "logIndex" integer NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_role_changes_block_tx_log" UNIQUE ("blockNumber", "transactionHash", "logIndex"),
+        CONSTRAINT "PK_role_changes" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_role_changes_contract_role" ON "role_changes" ("contractAddress", "role")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_role_changes_account" ON "role_changes" ("account")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "role_changes"`);
+    await queryRunner.query(`DROP TABLE "role_members"`);
+  }
+}
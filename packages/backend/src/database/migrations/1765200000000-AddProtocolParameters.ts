@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddProtocolParameters1765200000000 implements MigrationInterface {
+  name = 'AddProtocolParameters1765200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create protocol_parameters table for the fee, keeper tip, pause and max-nodes history
+    await queryRunner.query(`
+      CREATE TABLE "protocol_parameters" (
+        "id" SERIAL NOT NULL,
+        "contractAddress" character varying NOT NULL,
+        "parameter" character varying NOT NULL,
+        "value" character varying NOT NULL,
+        "blockNumber" bigint NOT NULL,
+        "timestamp" integer NOT NULL,
+        "transactionHash" character varying NOT NULL,
+        "logIndex" integer NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_protocol_parameters_block_tx_log_parameter" UNIQUE ("blockNumber", "transactionHash", "logIndex", "parameter"),
+        CONSTRAINT "PK_protocol_parameters" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_protocol_parameters_parameter_block" ON "protocol_parameters" ("parameter", "blockNumber")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "protocol_parameters"`);
+  }
+}
@@ -0,0 +1,68 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddReferrals1765300000000 implements MigrationInterface {
+  name = 'AddReferrals1765300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create referrals table for the payout address history of each referral NFT id
+    await queryRunner.query(`
+      CREATE TABLE "referrals" (
+        "id" SERIAL NOT NULL,
+        "referralId" numeric(78,0) NOT NULL,
+        "payoutAddress" character varying NOT NULL,
+        "setBlock" bigint NOT NULL,
+        "setTimestamp" integer NOT NULL,
+        "setTransactionHash" character varying NOT NULL,
+        "setLogIndex" integer NOT NULL,
+        "replacedBlock" bigint,
+        "replacedTimestamp" integer,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_referrals_set_block_tx_log" UNIQUE ("setBlock", "setTransactionHash", "setLogIndex"),
+        CONSTRAINT "PK_referrals" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_referrals_referral_id" ON "referrals" ("referralId")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_referrals_payout_address" ON "referrals" ("payoutAddress")
+    `);
+
+    // Create referral_rewards table for the rewards paid per referral id and their mints
+    await queryRunner.query(`
+      CREATE TABLE "referral_rewards" (
+        "id" SERIAL NOT NULL,
+        "referralId" numeric(78,0) NOT NULL,
+        "referrer" character varying NOT NULL,
+        "rewardShares" numeric(78,0) NOT NULL,
+        "minter" character varying,
+        "mintTfuelIn" numeric(78,0),
+        "mintFeeTFuel" numeric(78,0),
+        "mintLogIndex" integer,
+        "blockNumber" bigint NOT NULL,
+        "timestamp" integer NOT NULL,
+        "transactionHash" character varying NOT NULL,
+        "logIndex" integer NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_referral_rewards_block_tx_log" UNIQUE ("blockNumber", "transactionHash", "logIndex"),
+        CONSTRAINT "PK_referral_rewards" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_referral_rewards_referral_id_timestamp" ON "referral_rewards" ("referralId", "timestamp")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_referral_rewards_referrer" ON "referral_rewards" ("referrer")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "referral_rewards"`);
+    await queryRunner.query(`DROP TABLE "referrals"`);
+  }
+}
@@ -0,0 +1,65 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddReferralNfts1765400000000 implements MigrationInterface {
+  name = 'AddReferralNfts1765400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create referral_nfts table for the current owner of each referral NFT token
+    await queryRunner.query(`
+      CREATE TABLE "referral_nfts" (
+        "id" SERIAL NOT NULL,
+        "contractAddress" character varying NOT NULL,
+        "tokenId" numeric(78,0) NOT NULL,
+        "owner" character varying NOT NULL,
+        "mintedBlock" bigint,
+        "mintedTimestamp" integer,
+        "lastTransferBlock" bigint NOT NULL,
+        "lastTransferTimestamp" integer NOT NULL,
+        "lastTransferTransactionHash" character varying NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_referral_nfts_contract_token" UNIQUE ("contractAddress", "tokenId"),
+        CONSTRAINT "PK_referral_nfts" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_referral_nfts_owner" ON "referral_nfts" ("owner")
+    `);
+
+    // Create referral_nft_transfers table for the ownership history
+    await queryRunner.query(`
+      CREATE TABLE "referral_nft_transfers" (
+        "id" SERIAL NOT NULL,
+        "contractAddress" character varying NOT NULL,
+        "tokenId" numeric(78,0) NOT NULL,
+        "from" character varying NOT NULL,
+        "to" character varying NOT NULL,
+        "blockNumber" bigint NOT NULL,
+        "timestamp" integer NOT NULL,
+        "transactionHash" character varying NOT NULL,
+        "logIndex" integer NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_referral_nft_transfers_block_tx_log" UNIQUE ("blockNumber", "transactionHash", "logIndex"),
+        CONSTRAINT "PK_referral_nft_transfers" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_referral_nft_transfers_contract_token" ON "referral_nft_transfers" ("contractAddress", "tokenId")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_referral_nft_transfers_from" ON "referral_nft_transfers" ("from")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_referral_nft_transfers_to" ON "referral_nft_transfers" ("to")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "referral_nft_transfers"`);
+    await queryRunner.query(`DROP TABLE "referral_nfts"`);
+  }
+}
@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRedemptionClaims1765500000000 implements MigrationInterface {
+  name = 'AddRedemptionClaims1765500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Claim stage of redemption queue entries (Claimed / CreditsClaimed)
+    await queryRunner.query(`
+      ALTER TABLE "redemption_queue"
+      ADD COLUMN "claimedBlock" bigint,
+      ADD COLUMN "claimedTimestamp" integer,
+      ADD COLUMN "claimedTransactionHash" character varying
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_redemption_queue_status_unlock_block" ON "redemption_queue" ("status", "unlockBlockNumber")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_redemption_queue_status_unlock_block"`);
+    await queryRunner.query(`
+      ALTER TABLE "redemption_queue"
+      DROP COLUMN "claimedTransactionHash",
+      DROP COLUMN "claimedTimestamp",
+      DROP COLUMN "claimedBlock"
+    `);
+  }
+}
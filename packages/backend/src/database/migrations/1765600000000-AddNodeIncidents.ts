@@ -0,0 +1,40 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddNodeIncidents1765600000000 implements MigrationInterface {
+  name = 'AddNodeIncidents1765600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create node_incidents table for the faulty episodes of edge nodes
+    await queryRunner.query(`
+      CREATE TABLE "node_incidents" (
+        "id" SERIAL NOT NULL,
+        "nodeAddress" character varying NOT NULL,
+        "stakedAmount" numeric(78,0) NOT NULL,
+        "faultyBlock" bigint NOT NULL,
+        "faultyTimestamp" integer NOT NULL,
+        "faultyTransactionHash" character varying NOT NULL,
+        "faultyLogIndex" integer NOT NULL,
+        "recoveredAmount" numeric(78,0),
+        "recoveryBlock" bigint,
+        "recoveryTimestamp" integer,
+        "recoveryTransactionHash" character varying,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_node_incidents_block_tx_log" UNIQUE ("faultyBlock", "faultyTransactionHash", "faultyLogIndex"),
+        CONSTRAINT "PK_node_incidents" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_node_incidents_node_address" ON "node_incidents" ("nodeAddress")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_node_incidents_recovery_block" ON "node_incidents" ("recoveryBlock")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "node_incidents"`);
+  }
+}
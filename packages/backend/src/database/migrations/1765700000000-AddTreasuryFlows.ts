@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTreasuryFlows1765700000000 implements MigrationInterface {
+  name = 'AddTreasuryFlows1765700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create treasury_flows table for the classified TFuel inflows of NodeManager
+    await queryRunner.query(`
+      CREATE TABLE "treasury_flows" (
+        "id" SERIAL NOT NULL,
+        "flowType" character varying NOT NULL,
+        "amount" numeric(78,0) NOT NULL,
+        "from" character varying,
+        "nodeAddress" character varying,
+        "unstakeTransactionHash" character varying,
+        "unstakeLogIndex" integer,
+        "blockNumber" bigint NOT NULL,
+        "timestamp" integer NOT NULL,
+        "transactionHash" character varying NOT NULL,
+        "logIndex" integer NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_treasury_flows_block_tx_log" UNIQUE ("blockNumber", "transactionHash", "logIndex"),
+        CONSTRAINT "PK_treasury_flows" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_treasury_flows_type_timestamp" ON "treasury_flows" ("flowType", "timestamp")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_treasury_flows_unstake" ON "treasury_flows" ("unstakeTransactionHash", "unstakeLogIndex")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "treasury_flows"`);
+  }
+}
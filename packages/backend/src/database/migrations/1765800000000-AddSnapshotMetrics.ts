@@ -0,0 +1,74 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSnapshotMetrics1765800000000 implements MigrationInterface {
+  name = 'AddSnapshotMetrics1765800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create snapshot_metrics table for the running totals read by the hourly snapshots
+    await queryRunner.query(`
+      CREATE TABLE "snapshot_metrics" (
+        "id" SERIAL NOT NULL,
+        "key" character varying NOT NULL,
+        "tfuelStakedAmount" numeric(78,0) NOT NULL DEFAULT '0',
+        "stfuelTotalSupply" numeric(78,0) NOT NULL DEFAULT '0',
+        "currentHoldersCount" integer NOT NULL DEFAULT 0,
+        "historicalHoldersCount" integer NOT NULL DEFAULT 0,
+        "totalReferralRewards" numeric(78,0) NOT NULL DEFAULT '0',
+        "edgeNodesCount" integer NOT NULL DEFAULT 0,
+        "totalKeeperTipsPaid" numeric(78,0) NOT NULL DEFAULT '0',
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_snapshot_metrics_key" UNIQUE ("key"),
+        CONSTRAINT "PK_snapshot_metrics" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "users" ADD COLUMN "firstTransferBlock" bigint
+    `);
+
+    // Seed from the data indexed so far, the way the normalized handlers would have built it
+    await queryRunner.query(`
+      UPDATE "users" SET "firstTransferBlock" = "transfers"."firstBlock"
+      FROM (
+        SELECT "holder", MIN("blockNumber") AS "firstBlock"
+        FROM (
+          SELECT LOWER("args"->>'from') AS "holder", "blockNumber" FROM "stfuel_events" WHERE "eventName" = 'Transfer'
+          UNION ALL
+          SELECT LOWER("args"->>'to') AS "holder", "blockNumber" FROM "stfuel_events" WHERE "eventName" = 'Transfer'
+        ) AS "sides"
+        GROUP BY "holder"
+      ) AS "transfers", "addresses"
+      WHERE "addresses"."address" = "transfers"."holder" AND "users"."addressId" = "addresses"."id"
+    `);
+
+    await queryRunner.query(`
+      INSERT INTO "snapshot_metrics" (
+        "key", "tfuelStakedAmount", "stfuelTotalSupply", "currentHoldersCount", "historicalHoldersCount",
+        "totalReferralRewards", "edgeNodesCount", "totalKeeperTipsPaid"
+      )
+      SELECT
+        'current',
+        (SELECT COALESCE(SUM(CASE WHEN "eventName" = 'TFuelStaked' THEN 1 ELSE -1 END * ("args"->>'amount')::numeric), 0)
+           FROM "node_manager_events" WHERE "eventName" IN ('TFuelStaked', 'TFuelUnstaked')),
+        (SELECT COALESCE(SUM(CASE "eventName"
+             WHEN 'Minted' THEN ("args"->>'sharesOut')::numeric
+             WHEN 'ReferralRewarded' THEN ("args"->>'rewardShares')::numeric
+             ELSE -("args"->>'sharesBurned')::numeric
+           END), 0)
+           FROM "stfuel_events" WHERE "eventName" IN ('Minted', 'ReferralRewarded', 'BurnQueued', 'BurnAndDirectRedeemed')),
+        (SELECT COUNT(*) FROM "users" WHERE "stfuelBalance" > 0),
+        (SELECT COUNT(*) FROM "users" WHERE "firstTransferBlock" IS NOT NULL),
+        (SELECT COALESCE(SUM(("args"->>'rewardShares')::numeric), 0)
+           FROM "stfuel_events" WHERE "eventName" = 'ReferralRewarded'),
+        (SELECT COUNT(*) FROM "edge_nodes" WHERE "totalStaked" - "totalUnstaked" > 0),
+        (SELECT COALESCE(SUM(("args"->>'tipCredited')::numeric), 0)
+           FROM "node_manager_events" WHERE "eventName" IN ('KeeperPaid', 'KeeperCredited'))
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "firstTransferBlock"`);
+    await queryRunner.query(`DROP TABLE "snapshot_metrics"`);
+  }
+}
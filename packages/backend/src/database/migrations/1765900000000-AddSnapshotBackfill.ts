@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSnapshotBackfill1765900000000 implements MigrationInterface {
+  name = 'AddSnapshotBackfill1765900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create snapshot_backfill_jobs table for the progress of resumable snapshot backfills
+    await queryRunner.query(`
+      CREATE TABLE "snapshot_backfill_jobs" (
+        "id" SERIAL NOT NULL,
+        "granularity" character varying NOT NULL,
+        "fromTimestamp" integer NOT NULL,
+        "toTimestamp" integer NOT NULL,
+        "nextTimestamp" integer NOT NULL,
+        "lastBlockNumber" bigint,
+        "snapshotsWritten" integer NOT NULL DEFAULT 0,
+        "status" character varying NOT NULL DEFAULT 'running',
+        "lastError" text,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_snapshot_backfill_jobs" PRIMARY KEY ("id")
+      )
+    `);
+
+    // Exchange rate read from sTFuel at the snapshot block
+    await queryRunner.query(`
+      ALTER TABLE "hourly_snapshots" ADD COLUMN "pps" numeric(78,0)
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "hourly_snapshots" DROP COLUMN "pps"`);
+    await queryRunner.query(`DROP TABLE "snapshot_backfill_jobs"`);
+  }
+}
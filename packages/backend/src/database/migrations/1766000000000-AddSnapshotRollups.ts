@@ -0,0 +1,86 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSnapshotRollups1766000000000 implements MigrationInterface {
+  name = 'AddSnapshotRollups1766000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create snapshot_rollups table for the open/close/min/max of the snapshots per period
+    await queryRunner.query(`
+      CREATE TABLE "snapshot_rollups" (
+        "id" SERIAL NOT NULL,
+        "resolution" character varying NOT NULL,
+        "periodStart" integer NOT NULL,
+        "periodEnd" integer NOT NULL,
+        "snapshotCount" integer NOT NULL,
+        "openBlockNumber" bigint NOT NULL,
+        "closeBlockNumber" bigint NOT NULL,
+        "openRate" numeric(78,0),
+        "closeRate" numeric(78,0),
+        "minRate" numeric(78,0),
+        "maxRate" numeric(78,0),
+        "openSupply" numeric(78,0) NOT NULL,
+        "closeSupply" numeric(78,0) NOT NULL,
+        "minSupply" numeric(78,0) NOT NULL,
+        "maxSupply" numeric(78,0) NOT NULL,
+        "tfuelBackingAmount" numeric(78,0) NOT NULL,
+        "tfuelStakedAmount" numeric(78,0) NOT NULL,
+        "currentHoldersCount" integer NOT NULL,
+        "historicalHoldersCount" integer NOT NULL,
+        "totalReferralRewards" numeric(78,0) NOT NULL,
+        "edgeNodesCount" integer NOT NULL,
+        "totalKeeperTipsPaid" numeric(78,0) NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_snapshot_rollups_resolution_period" UNIQUE ("resolution", "periodStart"),
+        CONSTRAINT "PK_snapshot_rollups" PRIMARY KEY ("id")
+      )
+    `);
+
+    // Roll up the snapshots stored so far, the way SnapshotRollupService refreshes a period
+    for (const resolution of ['hour', 'day', 'week', 'month']) {
+      await queryRunner.query(
+        `
+        INSERT INTO "snapshot_rollups" (
+          "resolution", "periodStart", "periodEnd", "snapshotCount", "openBlockNumber", "closeBlockNumber",
+          "openRate", "closeRate", "minRate", "maxRate", "openSupply", "closeSupply", "minSupply", "maxSupply",
+          "tfuelBackingAmount", "tfuelStakedAmount", "currentHoldersCount", "historicalHoldersCount",
+          "totalReferralRewards", "edgeNodesCount", "totalKeeperTipsPaid"
+        )
+        SELECT
+          $1,
+          EXTRACT(EPOCH FROM "period")::integer,
+          EXTRACT(EPOCH FROM "period" + ('1 ' || $1)::interval)::integer,
+          COUNT(*),
+          (array_agg("blockNumber" ORDER BY "snapshotTimestamp" ASC, "blockNumber" ASC))[1],
+          (array_agg("blockNumber" ORDER BY "snapshotTimestamp" DESC, "blockNumber" DESC))[1],
+          (array_agg("rate" ORDER BY "snapshotTimestamp" ASC, "blockNumber" ASC))[1],
+          (array_agg("rate" ORDER BY "snapshotTimestamp" DESC, "blockNumber" DESC))[1],
+          MIN("rate"),
+          MAX("rate"),
+          (array_agg("stfuelTotalSupply" ORDER BY "snapshotTimestamp" ASC, "blockNumber" ASC))[1],
+          (array_agg("stfuelTotalSupply" ORDER BY "snapshotTimestamp" DESC, "blockNumber" DESC))[1],
+          MIN("stfuelTotalSupply"),
+          MAX("stfuelTotalSupply"),
+          (array_agg("tfuelBackingAmount" ORDER BY "snapshotTimestamp" DESC, "blockNumber" DESC))[1],
+          (array_agg("tfuelStakedAmount" ORDER BY "snapshotTimestamp" DESC, "blockNumber" DESC))[1],
+          (array_agg("currentHoldersCount" ORDER BY "snapshotTimestamp" DESC, "blockNumber" DESC))[1],
+          (array_agg("historicalHoldersCount" ORDER BY "snapshotTimestamp" DESC, "blockNumber" DESC))[1],
+          (array_agg("totalReferralRewards" ORDER BY "snapshotTimestamp" DESC, "blockNumber" DESC))[1],
+          (array_agg("edgeNodesCount" ORDER BY "snapshotTimestamp" DESC, "blockNumber" DESC))[1],
+          (array_agg("totalKeeperTipsPaid" ORDER BY "snapshotTimestamp" DESC, "blockNumber" DESC))[1]
+        FROM (
+          SELECT *,
+                 date_trunc($1, to_timestamp("snapshotTimestamp") AT TIME ZONE 'UTC') AS "period",
+                 COALESCE("pps", CASE WHEN "stfuelTotalSupply" > 0 THEN TRUNC("tfuelBackingAmount" * 1000000000000000000 / "stfuelTotalSupply") END) AS "rate"
+          FROM "hourly_snapshots"
+        ) AS "snapshot"
+        GROUP BY "period"
+        `,
+        [resolution]
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "snapshot_rollups"`);
+  }
+}
@@ -0,0 +1,16 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSnapshotPpsSafe1766100000000 implements MigrationInterface {
+  name = 'AddSnapshotPpsSafe1766100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Exchange rate read from sTFuel.ppsSafe() at the snapshot block
+    await queryRunner.query(`
+      ALTER TABLE "hourly_snapshots" ADD COLUMN "ppsSafe" numeric(78,0)
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "hourly_snapshots" DROP COLUMN "ppsSafe"`);
+  }
+}
@@ -0,0 +1,59 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBalanceChanges1766200000000 implements MigrationInterface {
+  name = 'AddBalanceChanges1766200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create balance_changes table for the sTFuel balance history of each address
+    await queryRunner.query(`
+      CREATE TABLE "balance_changes" (
+        "id" SERIAL NOT NULL,
+        "address" character varying NOT NULL,
+        "amount" numeric(78,0) NOT NULL,
+        "balance" numeric(78,0) NOT NULL,
+        "blockNumber" bigint NOT NULL,
+        "timestamp" integer NOT NULL,
+        "transactionHash" character varying NOT NULL,
+        "logIndex" integer NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_balance_changes_address_block_tx_log" UNIQUE ("address", "blockNumber", "transactionHash", "logIndex"),
+        CONSTRAINT "PK_balance_changes" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_balance_changes_address_block" ON "balance_changes" ("address", "blockNumber", "logIndex")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_balance_changes_address_timestamp" ON "balance_changes" ("address", "timestamp")
+    `);
+
+    // Seed from the Transfer events indexed so far, the way the Transfer handler would have built it
+    await queryRunner.query(`
+      INSERT INTO "balance_changes" ("address", "amount", "balance", "blockNumber", "timestamp", "transactionHash", "logIndex")
+      SELECT
+        "address",
+        "amount",
+        SUM("amount") OVER (PARTITION BY "address" ORDER BY "blockNumber", "transactionIndex", "logIndex"),
+        "blockNumber", "timestamp", "transactionHash", "logIndex"
+      FROM (
+        SELECT LOWER("args"->>'from') AS "address", -("args"->>'value')::numeric AS "amount",
+               "blockNumber", "transactionIndex", "timestamp", "transactionHash", "logIndex"
+        FROM "stfuel_events"
+        WHERE "eventName" = 'Transfer' AND "args"->>'value' IS NOT NULL AND LOWER("args"->>'from') <> LOWER("args"->>'to')
+        UNION ALL
+        SELECT LOWER("args"->>'to') AS "address",
+               CASE WHEN LOWER("args"->>'from') = LOWER("args"->>'to') THEN 0 ELSE ("args"->>'value')::numeric END AS "amount",
+               "blockNumber", "transactionIndex", "timestamp", "transactionHash", "logIndex"
+        FROM "stfuel_events"
+        WHERE "eventName" = 'Transfer' AND "args"->>'value' IS NOT NULL
+      ) AS "sides"
+      WHERE "address" <> '0x0000000000000000000000000000000000000000'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "balance_changes"`);
+  }
+}
@@ -0,0 +1,115 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// Normalized tables at the time of this migration - a table added later needs its own trigger
+const NORMALIZED_TABLES = ['users', 'edge_nodes', 'redemption_queue', 'role_operations', 'role_members', 'role_changes', 'protocol_parameters', 'referrals', 'referral_rewards', 'referral_nfts', 'referral_nft_transfers', 'node_incidents', 'treasury_flows', 'snapshot_metrics', 'balance_changes'];
+
+export class AddNormalizedUndoLog1766300000000 implements MigrationInterface {
+  name = 'AddNormalizedUndoLog1766300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create normalized_undo_log table with the row changes of the recent blocks, undone on a reorg
+    await queryRunner.query(`
+      CREATE TABLE "normalized_undo_log" (
+        "id" BIGSERIAL NOT NULL,
+        "blockNumber" bigint NOT NULL,
+        "tableName" character varying NOT NULL,
+        "operation" character varying NOT NULL,
+        "rowId" integer NOT NULL,
+        "oldRow" jsonb,
+        CONSTRAINT "PK_normalized_undo_log" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_normalized_undo_log_blockNumber" ON "normalized_undo_log" ("blockNumber")
+    `);
+
+    // Rows written while applying an event are tagged with its block through the
+    // stfuel.block_number setting; untagged writes (e.g. node liveness) are not logged
+    await queryRunner.query(`
+      CREATE FUNCTION "record_normalized_undo"() RETURNS trigger AS $$
+      DECLARE
+        "block" bigint := NULLIF(current_setting('stfuel.block_number', true), '')::bigint;
+      BEGIN
+        IF "block" IS NULL OR "block" < COALESCE(NULLIF(current_setting('stfuel.undo_from_block', true), '')::bigint, "block") THEN
+          RETURN NULL;
+        END IF;
+
+        IF TG_OP = 'INSERT' THEN
+          INSERT INTO "normalized_undo_log" ("blockNumber", "tableName", "operation", "rowId")
+          VALUES ("block", TG_TABLE_NAME, TG_OP, NEW."id");
+        ELSE
+          INSERT INTO "normalized_undo_log" ("blockNumber", "tableName", "operation", "rowId", "oldRow")
+          VALUES ("block", TG_TABLE_NAME, TG_OP, OLD."id", to_jsonb(OLD));
+        END IF;
+
+        RETURN NULL;
+      END;
+      $$ LANGUAGE plpgsql
+    `);
+
+    // Revert the logged changes of the blocks after the fork, newest first
+    await queryRunner.query(`
+      CREATE FUNCTION "undo_normalized_changes"("forkBlock" bigint) RETURNS integer AS $$
+      DECLARE
+        "entry" record;
+        "columns" text;
+        "undone" integer := 0;
+      BEGIN
+        PERFORM set_config('stfuel.block_number', '', true);
+
+        FOR "entry" IN
+          SELECT * FROM "normalized_undo_log" WHERE "blockNumber" > "forkBlock" ORDER BY "id" DESC
+        LOOP
+          IF "entry"."operation" = 'INSERT' THEN
+            EXECUTE format('DELETE FROM %I WHERE "id" = $1', "entry"."tableName") USING "entry"."rowId";
+          ELSE
+            SELECT string_agg(quote_ident("attname"), ', ' ORDER BY "attnum") INTO "columns"
+            FROM "pg_attribute"
+            WHERE "attrelid" = "entry"."tableName"::regclass AND "attnum" > 0 AND NOT "attisdropped" AND "attgenerated" = '';
+
+            IF "entry"."operation" = 'UPDATE' THEN
+              EXECUTE format('UPDATE %I SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::%I, $1)) WHERE "id" = $2',
+                "entry"."tableName", "columns", "columns", "entry"."tableName")
+              USING "entry"."oldRow", "entry"."rowId";
+            ELSE
+              EXECUTE format('INSERT INTO %I (%s) SELECT %s FROM jsonb_populate_record(NULL::%I, $1)',
+                "entry"."tableName", "columns", "columns", "entry"."tableName")
+              USING "entry"."oldRow";
+            END IF;
+          END IF;
+
+          "undone" := "undone" + 1;
+        END LOOP;
+
+        DELETE FROM "normalized_undo_log" WHERE "blockNumber" > "forkBlock";
+        RETURN "undone";
+      END;
+      $$ LANGUAGE plpgsql
+    `);
+
+    for (const table of NORMALIZED_TABLES) {
+      await queryRunner.query(`
+        CREATE TRIGGER "TRG_${table}_undo" AFTER INSERT OR UPDATE OR DELETE ON "${table}"
+        FOR EACH ROW EXECUTE FUNCTION "record_normalized_undo"()
+      `);
+    }
+
+    // The log only covers the blocks indexed from now on - a reorg below the current
+    // checkpoint still falls back to a rebuild
+    await queryRunner.query(`
+      INSERT INTO "sync_state" ("key", "lastBlockNumber")
+      SELECT 'normalizedUndo', COALESCE((SELECT "lastBlockNumber" FROM "sync_state" WHERE "key" = 'main'), '-1')
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DELETE FROM "sync_state" WHERE "key" = 'normalizedUndo'`);
+    for (const table of NORMALIZED_TABLES) {
+      await queryRunner.query(`DROP TRIGGER "TRG_${table}_undo" ON "${table}"`);
+    }
+    await queryRunner.query(`DROP FUNCTION "undo_normalized_changes"(bigint)`);
+    await queryRunner.query(`DROP FUNCTION "record_normalized_undo"()`);
+    await queryRunner.query(`DROP TABLE "normalized_undo_log"`);
+  }
+}
@@ -1,14 +1,34 @@
-import { Repository } from 'typeorm';
+import { Repository, IsNull, SelectQueryBuilder } from 'typeorm';
 import AppDataSource from '../database/data-source';
 import { NodeManagerEvent } from '../database/entities/NodeManagerEvent';
 import { StfuelEvent } from '../database/entities/StfuelEvent';
+import { ContractEvent } from '../database/entities/ContractEvent';
+import { PendingEvent } from '../database/entities/PendingEvent';
 import { HourlySnapshot } from '../database/entities/HourlySnapshot';
+import { SnapshotRollup, SnapshotResolution } from '../database/entities/SnapshotRollup';
 import { SyncState } from '../database/entities/SyncState';
 import { Address } from '../database/entities/Address';
 import { EdgeNode } from '../database/entities/EdgeNode';
 import { User } from '../database/entities/User';
-import { RedemptionQueue } from '../database/entities/RedemptionQueue';
+import { RedemptionQueue, RedemptionStatus } from '../database/entities/RedemptionQueue';
+import { RoleOperation } from '../database/entities/RoleOperation';
+import { RoleMember } from '../database/entities/RoleMember';
+import { RoleChange } from '../database/entities/RoleChange';
+import { ProtocolParameter, ProtocolParameterName, PROTOCOL_PARAMETER_DEFAULTS } from '../database/entities/ProtocolParameter';
+import { Referral } from '../database/entities/Referral';
+import { ReferralReward } from '../database/entities/ReferralReward';
+import { ReferralNft } from '../database/entities/ReferralNft';
+import { ReferralNftTransfer } from '../database/entities/ReferralNftTransfer';
+import { NodeIncident } from '../database/entities/NodeIncident';
+import { TreasuryFlow, TreasuryFlowType } from '../database/entities/TreasuryFlow';
 import { SnapshotService } from '../services/SnapshotService';
+import { YieldService } from '../services/YieldService';
+import { BalanceHistoryService } from '../services/BalanceHistoryService';
+import { DeadLetterService } from '../services/DeadLetterService';
+import { getProviderPool } from '../rpc/RpcProviderPool';
+import { loadContractRegistry, getSyncStateKey } from '../contracts/registry';
+import { getRoleHash, getRoleName } from '../contracts/roles';
+import { config } from '../config/environment';
 import { GraphQLScalarType, Kind } from 'graphql';
 
 // Custom scalar resolvers
@@ -43,6 +63,213 @@ const JSONScalar = new GraphQLScalarType({
   },
 });
 
+/**
+ * Events of blocks waiting for confirmations, newest first. Blocks indexed since the
+ * last pending refresh are skipped - they are already returned as confirmed events.
+ */
+async function findPendingEvents(filters: {
+  handlers?: string[];
+  contractName?: string;
+  eventName?: string;
+  address?: string;
+  userAddress?: string;
+  fromBlock?: string;
+  toBlock?: string;
+}) {
+  let query = AppDataSource.getRepository(PendingEvent)
+    .createQueryBuilder('event')
+    .where(`CAST(event.blockNumber AS bigint) > COALESCE((SELECT CAST("lastBlockNumber" AS bigint) FROM "sync_state" WHERE "key" = 'main'), -1)`);
+
+  if (filters.handlers) {
+    query = query.andWhere('event.handler IN (:...handlers)', { handlers: filters.handlers });
+  }
+  if (filters.contractName) {
+    query = query.andWhere('event.contractName = :contractName', { contractName: filters.contractName });
+  }
+  if (filters.eventName) {
+    query = query.andWhere('event.eventName = :eventName', { eventName: filters.eventName });
+  }
+  if (filters.address) {
+    query = query.andWhere('event.address = :address', { address: filters.address });
+  }
+  if (filters.userAddress) {
+    // Any event argument holding the address (from, to, user, staker, ...)
+    query = query.andWhere(
+      'EXISTS (SELECT 1 FROM jsonb_each_text(event.args) AS "arg" WHERE LOWER("arg"."value") = :userAddress)',
+      { userAddress: filters.userAddress.toLowerCase() }
+    );
+  }
+  if (filters.fromBlock) {
+    query = query.andWhere('CAST(event.blockNumber AS bigint) >= :fromBlock', { fromBlock: filters.fromBlock });
+  }
+  if (filters.toBlock) {
+    query = query.andWhere('CAST(event.blockNumber AS bigint) <= :toBlock', { toBlock: filters.toBlock });
+  }
+
+  const events = await query
+    .orderBy('event.blockNumber', 'DESC')
+    .addOrderBy('event.transactionIndex', 'DESC')
+    .addOrderBy('event.logIndex', 'DESC')
+    .getMany();
+
+  return events.map((event) => ({ ...event, id: `pending:${event.id}`, confirmed: false }));
+}
+
+type PendingEventResult = Awaited<ReturnType<typeof findPendingEvents>>[number];
+
+// Pending rows are replaced on every refresh, so their cursor is the event position
+// (pending:<blockNumber>:<transactionIndex>:<logIndex>) rather than the row id
+const PENDING_CURSOR = /^pending:(\d+):(\d+):(\d+)$/;
+
+function pendingCursor(event: PendingEventResult): string {
+  return `pending:${event.blockNumber}:${event.transactionIndex}:${event.logIndex}`;
+}
+
+function isBeforePosition(event: PendingEventResult, position: bigint[]): boolean {
+  const eventPosition = [BigInt(event.blockNumber), BigInt(event.transactionIndex), BigInt(event.logIndex)];
+  const index = eventPosition.findIndex((value, i) => value !== position[i]);
+  return index !== -1 && eventPosition[index] < position[index];
+}
+
+/**
+ * Page of the stored events of the query, led by the pending events with
+ * includePending - they are newer than any stored event. first, hasNextPage and
+ * totalCount cover both, from the cursor on.
+ */
+async function paginateEvents(
+  query: SelectQueryBuilder<any>,
+  { first, after, includePending }: { first: number; after?: string; includePending: boolean },
+  pendingFilters: Parameters<typeof findPendingEvents>[0]
+) {
+  let pendingEvents: PendingEventResult[] = [];
+
+  if (after?.startsWith('pending:')) {
+    const match = after.match(PENDING_CURSOR);
+    if (!match) {
+      throw new Error(`Invalid cursor: ${after}`);
+    }
+    // Only the pending events older than the cursor are left, followed by all stored events
+    if (includePending) {
+      const position = match.slice(1).map((value) => BigInt(value));
+      pendingEvents = (await findPendingEvents(pendingFilters)).filter((event) => isBeforePosition(event, position));
+    }
+  } else {
+    if (after) {
+      const afterId = Number(after);
+      if (!Number.isInteger(afterId)) {
+        throw new Error(`Invalid cursor: ${after}`);
+      }
+      // Events are newest first, so the page goes on with those before the cursor event
+      const table = query.expressionMap.mainAlias!.metadata.tableName;
+      query = query.andWhere(
+        `(event.blockNumber, event.transactionIndex, event.logIndex) < (SELECT "blockNumber", "transactionIndex", "logIndex" FROM "${table}" WHERE "id" = :afterId)`,
+        { afterId }
+      );
+    } else if (includePending) {
+      pendingEvents = await findPendingEvents(pendingFilters);
+    }
+  }
+
+  const storedCount = await query.getCount();
+  const storedLimit = first - Math.min(pendingEvents.length, first);
+
+  const events = storedLimit > 0
+    ? await query
+      .orderBy('event.blockNumber', 'DESC')
+      .addOrderBy('event.transactionIndex', 'DESC')
+      .addOrderBy('event.logIndex', 'DESC')
+      .limit(storedLimit)
+      .getMany()
+    : [];
+
+  const edges = [
+    ...pendingEvents.slice(0, first).map((event) => ({ node: event, cursor: pendingCursor(event) })),
+    ...events.map((event) => ({ node: event, cursor: event.id.toString() })),
+  ];
+  const totalCount = pendingEvents.length + storedCount;
+
+  return {
+    edges,
+    pageInfo: {
+      hasNextPage: totalCount > edges.length,
+      hasPreviousPage: !!after,
+      startCursor: edges[0]?.cursor || null,
+      endCursor: edges[edges.length - 1]?.cursor || null,
+    },
+    totalCount,
+  };
+}
+
+/**
+ * Reward totals per referral id between two ISO dates, ranked by reward shares
+ */
+async function getReferralStats(filters: {
+  referralId?: string;
+  fromDate?: string;
+  toDate?: string;
+  limit?: number;
+}) {
+  let query = AppDataSource.getRepository(ReferralReward)
+    .createQueryBuilder('reward')
+    .select('reward.referralId', 'referralId')
+    .addSelect('COUNT(*)', 'rewardsCount')
+    .addSelect('SUM(reward.rewardShares)', 'totalRewardShares')
+    .addSelect('COALESCE(SUM(reward.mintTfuelIn), 0)', 'totalReferredTFuel')
+    .addSelect('COUNT(DISTINCT reward.minter)', 'uniqueMinters')
+    .addSelect('MIN(reward.timestamp)', 'firstRewardTimestamp')
+    .addSelect('MAX(reward.timestamp)', 'lastRewardTimestamp');
+
+  if (filters.referralId) {
+    query = query.andWhere('reward.referralId = :referralId', { referralId: filters.referralId });
+  }
+  if (filters.fromDate) {
+    const fromTimestamp = Math.floor(new Date(filters.fromDate).getTime() / 1000);
+    query = query.andWhere('reward.timestamp >= :fromTimestamp', { fromTimestamp });
+  }
+  if (filters.toDate) {
+    const toTimestamp = Math.floor(new Date(filters.toDate).getTime() / 1000);
+    query = query.andWhere('reward.timestamp <= :toTimestamp', { toTimestamp });
+  }
+
+  query = query
+    .groupBy('reward.referralId')
+    .orderBy('"totalRewardShares"', 'DESC')
+    .addOrderBy('reward.referralId', 'ASC');
+
+  if (filters.limit) {
+    query = query.limit(filters.limit);
+  }
+
+  const rows = await query.getRawMany();
+  return rows.map((row) => ({
+    referralId: row.referralId,
+    rewardsCount: parseInt(row.rewardsCount),
+    totalRewardShares: row.totalRewardShares,
+    totalReferredTFuel: row.totalReferredTFuel,
+    uniqueMinters: parseInt(row.uniqueMinters),
+    firstRewardTimestamp: row.firstRewardTimestamp,
+    lastRewardTimestamp: row.lastRewardTimestamp,
+  }));
+}
+
+// Current payout address of a referral id (ReferralAddressSet), null if never set
+async function findPayoutAddress(referralId: string): Promise<string | null> {
+  const current = await AppDataSource.getRepository(Referral).findOne({
+    where: { referralId, replacedBlock: IsNull() },
+  });
+  return current?.payoutAddress ?? null;
+}
+
+// Registry contract name or contract address
+function resolveContractAddress(contract: string): string {
+  const registered = loadContractRegistry().find(entry => entry.name === contract);
+  return registered ? registered.address : contract.toLowerCase();
+}
+
+function getContractName(address: string): string | null {
+  return loadContractRegistry().find(entry => entry.address === address)?.name ?? null;
+}
+
 export const resolvers = {
   BigInt: BigIntScalar,
   JSON: JSONScalar,
@@ -51,23 +278,68 @@ export const resolvers = {
   NodeManagerEvent: {
     timestamp: (parent: any) => new Date(parent.timestamp * 1000).toISOString(),
     createdAt: (parent: any) => parent.createdAt.toISOString(),
+    // Stored events are confirmed, pending ones come from findPendingEvents
+    confirmed: (parent: any) => parent.confirmed ?? true,
   },
   
   StfuelEvent: {
     timestamp: (parent: any) => new Date(parent.timestamp * 1000).toISOString(),
     createdAt: (parent: any) => parent.createdAt.toISOString(),
+    // Stored events are confirmed, pending ones come from findPendingEvents
+    confirmed: (parent: any) => parent.confirmed ?? true,
+  },
+  
+  ContractEvent: {
+    timestamp: (parent: any) => new Date(parent.timestamp * 1000).toISOString(),
+    createdAt: (parent: any) => parent.createdAt.toISOString(),
+    // Stored events are confirmed, pending ones come from findPendingEvents
+    confirmed: (parent: any) => parent.confirmed ?? true,
+  },
+  
+  PendingEvent: {
+    timestamp: (parent: any) => new Date(parent.timestamp * 1000).toISOString(),
+    createdAt: (parent: any) => parent.createdAt.toISOString(),
   },
   
   HourlySnapshot: {
     snapshotTimestamp: (parent: any) => new Date(parent.snapshotTimestamp * 1000).toISOString(),
     createdAt: (parent: any) => parent.createdAt.toISOString(),
   },
+
+  SnapshotRollup: {
+    periodStart: (parent: any) => new Date(parent.periodStart * 1000).toISOString(),
+    periodEnd: (parent: any) => new Date(parent.periodEnd * 1000).toISOString(),
+    createdAt: (parent: any) => parent.createdAt.toISOString(),
+  },
+  
+  BalanceAt: {
+    lastChangeTimestamp: (parent: any) => parent.lastChangeTimestamp !== null ? new Date(parent.lastChangeTimestamp * 1000).toISOString() : null,
+    snapshotTimestamp: (parent: any) => parent.snapshotTimestamp !== null ? new Date(parent.snapshotTimestamp * 1000).toISOString() : null,
+  },
+
+  BalanceHistoryPoint: {
+    periodStart: (parent: any) => new Date(parent.periodStart * 1000).toISOString(),
+    periodEnd: (parent: any) => new Date(parent.periodEnd * 1000).toISOString(),
+  },
   
   EdgeNode: {
     registrationTimestamp: (parent: any) => new Date(parent.registrationTimestamp * 1000).toISOString(),
     deactivationTimestamp: (parent: any) => parent.deactivationTimestamp ? new Date(parent.deactivationTimestamp * 1000).toISOString() : null,
     faultyTimestamp: (parent: any) => parent.faultyTimestamp ? new Date(parent.faultyTimestamp * 1000).toISOString() : null,
     recoveryTimestamp: (parent: any) => parent.recoveryTimestamp ? new Date(parent.recoveryTimestamp * 1000).toISOString() : null,
+    incidents: (parent: any) => AppDataSource.getRepository(NodeIncident).find({
+      where: { nodeAddress: parent.address.address.toLowerCase() },
+      order: { faultyBlock: 'DESC' },
+    }),
+    createdAt: (parent: any) => parent.createdAt.toISOString(),
+    updatedAt: (parent: any) => parent.updatedAt.toISOString(),
+  },
+  
+  NodeIncident: {
+    faultyTimestamp: (parent: any) => new Date(parent.faultyTimestamp * 1000).toISOString(),
+    recoveryTimestamp: (parent: any) => parent.recoveryTimestamp ? new Date(parent.recoveryTimestamp * 1000).toISOString() : null,
+    isOpen: (parent: any) => parent.recoveryBlock === null,
+    durationSeconds: (parent: any) => (parent.recoveryTimestamp ?? Math.floor(Date.now() / 1000)) - parent.faultyTimestamp,
     createdAt: (parent: any) => parent.createdAt.toISOString(),
     updatedAt: (parent: any) => parent.updatedAt.toISOString(),
   },
@@ -83,6 +355,7 @@ export const resolvers = {
     requestTimestamp: (parent: any) => new Date(parent.requestTimestamp * 1000).toISOString(),
     unlockTimestamp: (parent: any) => parent.unlockTimestamp ? new Date(parent.unlockTimestamp * 1000).toISOString() : null,
     creditedTimestamp: (parent: any) => parent.creditedTimestamp ? new Date(parent.creditedTimestamp * 1000).toISOString() : null,
+    claimedTimestamp: (parent: any) => parent.claimedTimestamp ? new Date(parent.claimedTimestamp * 1000).toISOString() : null,
     createdAt: (parent: any) => parent.createdAt.toISOString(),
     updatedAt: (parent: any) => parent.updatedAt.toISOString(),
   },
@@ -92,6 +365,82 @@ export const resolvers = {
     updatedAt: (parent: any) => parent.updatedAt.toISOString(),
   },
   
+  RoleOperation: {
+    roleName: (parent: any) => getRoleName(parent.role),
+    submittedTimestamp: (parent: any) => parent.submittedTimestamp ? new Date(parent.submittedTimestamp * 1000).toISOString() : null,
+    executedTimestamp: (parent: any) => parent.executedTimestamp ? new Date(parent.executedTimestamp * 1000).toISOString() : null,
+    cancelledTimestamp: (parent: any) => parent.cancelledTimestamp ? new Date(parent.cancelledTimestamp * 1000).toISOString() : null,
+    createdAt: (parent: any) => parent.createdAt.toISOString(),
+    updatedAt: (parent: any) => parent.updatedAt.toISOString(),
+  },
+  
+  RoleMember: {
+    contractName: (parent: any) => getContractName(parent.contractAddress),
+    roleName: (parent: any) => getRoleName(parent.role),
+    grantedTimestamp: (parent: any) => new Date(parent.grantedTimestamp * 1000).toISOString(),
+    createdAt: (parent: any) => parent.createdAt.toISOString(),
+    updatedAt: (parent: any) => parent.updatedAt.toISOString(),
+  },
+  
+  RoleChange: {
+    contractName: (parent: any) => getContractName(parent.contractAddress),
+    roleName: (parent: any) => getRoleName(parent.role),
+    timestamp: (parent: any) => new Date(parent.timestamp * 1000).toISOString(),
+    createdAt: (parent: any) => parent.createdAt.toISOString(),
+  },
+  
+  Referral: {
+    setTimestamp: (parent: any) => new Date(parent.setTimestamp * 1000).toISOString(),
+    replacedTimestamp: (parent: any) => parent.replacedTimestamp ? new Date(parent.replacedTimestamp * 1000).toISOString() : null,
+    createdAt: (parent: any) => parent.createdAt.toISOString(),
+    updatedAt: (parent: any) => parent.updatedAt.toISOString(),
+  },
+  
+  ReferralReward: {
+    timestamp: (parent: any) => new Date(parent.timestamp * 1000).toISOString(),
+    createdAt: (parent: any) => parent.createdAt.toISOString(),
+  },
+  
+  ReferralStats: {
+    payoutAddress: (parent: any) => findPayoutAddress(parent.referralId),
+    firstRewardTimestamp: (parent: any) => parent.firstRewardTimestamp ? new Date(parent.firstRewardTimestamp * 1000).toISOString() : null,
+    lastRewardTimestamp: (parent: any) => parent.lastRewardTimestamp ? new Date(parent.lastRewardTimestamp * 1000).toISOString() : null,
+    addressHistory: (parent: any) => AppDataSource.getRepository(Referral).find({
+      where: { referralId: parent.referralId },
+      order: { setBlock: 'ASC', setLogIndex: 'ASC' },
+    }),
+  },
+  
+  ReferralNft: {
+    mintedTimestamp: (parent: any) => parent.mintedTimestamp ? new Date(parent.mintedTimestamp * 1000).toISOString() : null,
+    lastTransferTimestamp: (parent: any) => new Date(parent.lastTransferTimestamp * 1000).toISOString(),
+    payoutAddress: (parent: any) => findPayoutAddress(parent.tokenId),
+    payoutMismatch: async (parent: any) => {
+      const payoutAddress = await findPayoutAddress(parent.tokenId);
+      return payoutAddress !== null && payoutAddress !== parent.owner;
+    },
+    transfers: (parent: any) => AppDataSource.getRepository(ReferralNftTransfer).find({
+      where: { contractAddress: parent.contractAddress, tokenId: parent.tokenId },
+      order: { blockNumber: 'ASC', logIndex: 'ASC' },
+    }),
+    createdAt: (parent: any) => parent.createdAt.toISOString(),
+    updatedAt: (parent: any) => parent.updatedAt.toISOString(),
+  },
+  
+  ReferralNftTransfer: {
+    timestamp: (parent: any) => new Date(parent.timestamp * 1000).toISOString(),
+    createdAt: (parent: any) => parent.createdAt.toISOString(),
+  },
+  
+  TreasuryFlow: {
+    timestamp: (parent: any) => new Date(parent.timestamp * 1000).toISOString(),
+    createdAt: (parent: any) => parent.createdAt.toISOString(),
+  },
+  
+  ProtocolParameterValue: {
+    timestamp: (parent: any) => parent.timestamp ? new Date(parent.timestamp * 1000).toISOString() : null,
+  },
+  
   Query: {
     async nodeManagerEvents(
       _: any,
@@ -102,6 +451,7 @@ export const resolvers = {
         address,
         fromBlock,
         toBlock,
+        includePending = false,
       }: {
         first: number;
         after?: string;
@@ -109,6 +459,7 @@ export const resolvers = {
         address?: string;
         fromBlock?: string;
         toBlock?: string;
+        includePending?: boolean;
       }
     ) {
       const repo = AppDataSource.getRepository(NodeManagerEvent);
@@ -128,42 +479,11 @@ export const resolvers = {
         query = query.andWhere('CAST(event.blockNumber AS bigint) <= :toBlock', { toBlock });
       }
 
-      // Apply cursor-based pagination
-      if (after) {
-        const afterId = parseInt(after);
-        query = query.andWhere('event.id > :afterId', { afterId });
-      }
-
-      // Get total count
-      const totalCount = await query.getCount();
-
-      // Apply ordering and limit
-      query = query
-        .orderBy('event.blockNumber', 'DESC')
-        .addOrderBy('event.transactionIndex', 'DESC')
-        .addOrderBy('event.logIndex', 'DESC')
-        .limit(first);
-
-      const events = await query.getMany();
-
-      const edges = events.map((event, index) => ({
-        node: event,
-        cursor: event.id.toString(),
-      }));
-
-      const hasNextPage = events.length === first;
-      const hasPreviousPage = !!after;
-
-      return {
-        edges,
-        pageInfo: {
-          hasNextPage,
-          hasPreviousPage,
-          startCursor: edges[0]?.cursor || null,
-          endCursor: edges[edges.length - 1]?.cursor || null,
-        },
-        totalCount,
-      };
+      return paginateEvents(
+        query,
+        { first, after, includePending },
+        { handlers: ['nodeManager'], eventName, address, fromBlock, toBlock }
+      );
     },
 
     async stfuelEvents(
@@ -175,6 +495,7 @@ export const resolvers = {
         address,
         fromBlock,
         toBlock,
+        includePending = false,
       }: {
         first: number;
         after?: string;
@@ -182,6 +503,7 @@ export const resolvers = {
         address?: string;
         fromBlock?: string;
         toBlock?: string;
+        includePending?: boolean;
       }
     ) {
       const repo = AppDataSource.getRepository(StfuelEvent);
@@ -201,42 +523,67 @@ export const resolvers = {
         query = query.andWhere('CAST(event.blockNumber AS bigint) <= :toBlock', { toBlock });
       }
 
-      // Apply cursor-based pagination
-      if (after) {
-        const afterId = parseInt(after);
-        query = query.andWhere('event.id > :afterId', { afterId });
-      }
-
-      // Get total count
-      const totalCount = await query.getCount();
-
-      // Apply ordering and limit
-      query = query
-        .orderBy('event.blockNumber', 'DESC')
-        .addOrderBy('event.transactionIndex', 'DESC')
-        .addOrderBy('event.logIndex', 'DESC')
-        .limit(first);
+      return paginateEvents(
+        query,
+        { first, after, includePending },
+        { handlers: ['stfuel'], eventName, address, fromBlock, toBlock }
+      );
+    },
 
-      const events = await query.getMany();
+    async contractEvents(
+      _: any,
+      {
+        first = 50,
+        after,
+        contractName,
+        eventName,
+        address,
+        fromBlock,
+        toBlock,
+        includePending = false,
+      }: {
+        first: number;
+        after?: string;
+        contractName?: string;
+        eventName?: string;
+        address?: string;
+        fromBlock?: string;
+        toBlock?: string;
+        includePending?: boolean;
+      }
+    ) {
+      const repo = AppDataSource.getRepository(ContractEvent);
+      let query = repo.createQueryBuilder('event');
 
-      const edges = events.map((event, index) => ({
-        node: event,
-        cursor: event.id.toString(),
-      }));
+      // Apply filters
+      if (contractName) {
+        query = query.andWhere('event.contractName = :contractName', { contractName });
+      }
+      if (eventName) {
+        query = query.andWhere('event.eventName = :eventName', { eventName });
+      }
+      if (address) {
+        query = query.andWhere('event.address = :address', { address });
+      }
+      if (fromBlock) {
+        query = query.andWhere('CAST(event.blockNumber AS bigint) >= :fromBlock', { fromBlock });
+      }
+      if (toBlock) {
+        query = query.andWhere('CAST(event.blockNumber AS bigint) <= :toBlock', { toBlock });
+      }
 
-      const hasNextPage = events.length === first;
-      const hasPreviousPage = !!after;
+      return paginateEvents(
+        query,
+        { first, after, includePending },
+        { handlers: ['generic', 'adminMultisig', 'referralNft'], contractName, eventName, address, fromBlock, toBlock }
+      );
+    },
 
-      return {
-        edges,
-        pageInfo: {
-          hasNextPage,
-          hasPreviousPage,
-          startCursor: edges[0]?.cursor || null,
-          endCursor: edges[edges.length - 1]?.cursor || null,
-        },
-        totalCount,
-      };
+    async pendingEvents(
+      _: any,
+      { userAddress, contractName }: { userAddress?: string; contractName?: string }
+    ) {
+      return findPendingEvents({ userAddress, contractName });
     },
 
     async hourlySnapshots(
@@ -302,84 +649,66 @@ export const resolvers = {
       };
     },
 
-    async dailySnapshots(
+    async snapshots(
       _: any,
       {
+        resolution,
         first = 50,
         after,
         fromDate,
         toDate,
       }: {
+        resolution: string;
         first: number;
         after?: string;
         fromDate?: string;
         toDate?: string;
       }
     ) {
-      const repo = AppDataSource.getRepository(HourlySnapshot);
-      
-      // Build the base query with date filters - convert ISO date strings to Unix timestamps
-      let baseQuery = repo.createQueryBuilder('snapshot');
-      
+      const repo = AppDataSource.getRepository(SnapshotRollup);
+      let query = repo.createQueryBuilder('rollup')
+        .where('rollup.resolution = :resolution', { resolution });
+
+      // Apply date filters - periods overlapping the range
       if (fromDate) {
         const fromTimestamp = Math.floor(new Date(fromDate).getTime() / 1000);
-        baseQuery = baseQuery.andWhere('snapshot.snapshotTimestamp >= :fromTimestamp', { fromTimestamp });
+        query = query.andWhere('rollup.periodEnd > :fromTimestamp', { fromTimestamp });
       }
       if (toDate) {
         const toTimestamp = Math.floor(new Date(toDate).getTime() / 1000);
-        baseQuery = baseQuery.andWhere('snapshot.snapshotTimestamp <= :toTimestamp', { toTimestamp });
+        query = query.andWhere('rollup.periodStart <= :toTimestamp', { toTimestamp });
       }
 
-      // Get all snapshots in the date range, ordered by timestamp DESC
-      const allSnapshots = await baseQuery
-        .orderBy('snapshot.snapshotTimestamp', 'DESC')
-        .getMany();
-
-      // Group snapshots by day and select the first (most recent) snapshot of each day
-      const dailySnapshotsMap = new Map();
-      
-      allSnapshots.forEach((snapshot) => {
-        const snapshotDate = new Date(Number(snapshot.snapshotTimestamp) * 1000);
-        const dayKey = snapshotDate.toISOString().split('T')[0]; // YYYY-MM-DD format
-        
-        if (!dailySnapshotsMap.has(dayKey)) {
-          dailySnapshotsMap.set(dayKey, snapshot);
-        }
-      });
-
-      // Convert map to array and sort by timestamp DESC
-      const dailySnapshots = Array.from(dailySnapshotsMap.values())
-        .sort((a, b) => Number(b.snapshotTimestamp) - Number(a.snapshotTimestamp));
+      // Get total count
+      const totalCount = await query.getCount();
 
-      // Apply pagination
-      let startIndex = 0;
+      // Apply cursor-based pagination (newest first) - the cursor is the period start
       if (after) {
-        const afterId = parseInt(after);
-        const afterIndex = dailySnapshots.findIndex(s => s.id === afterId);
-        if (afterIndex !== -1) {
-          startIndex = afterIndex + 1;
-        }
+        const afterPeriodStart = parseInt(after);
+        query = query.andWhere('rollup.periodStart < :afterPeriodStart', { afterPeriodStart });
       }
 
-      const paginatedSnapshots = dailySnapshots.slice(startIndex, startIndex + first);
+      // One extra row tells whether another page follows
+      const rollups = await query
+        .orderBy('rollup.periodStart', 'DESC')
+        .limit(first + 1)
+        .getMany();
 
-      const edges = paginatedSnapshots.map((snapshot) => ({
-        node: snapshot,
-        cursor: snapshot.id.toString(),
+      const hasNextPage = rollups.length > first;
+      const edges = rollups.slice(0, first).map((rollup) => ({
+        node: rollup,
+        cursor: rollup.periodStart.toString(),
       }));
 
-      const hasNextPage = startIndex + first < dailySnapshots.length;
-      const hasPreviousPage = !!after;
-
       return {
         edges,
         pageInfo: {
           hasNextPage,
-          hasPreviousPage,
+          hasPreviousPage: !!after,
           startCursor: edges[0]?.cursor || null,
           endCursor: edges[edges.length - 1]?.cursor || null,
         },
-        totalCount: dailySnapshots.length,
+        totalCount,
       };
     },
 
@@ -388,14 +717,57 @@ export const resolvers = {
       return await snapshotService.getLatestSnapshot();
     },
 
+    async yields() {
+      return await new YieldService().getYields();
+    },
+
+    async balanceAt(_: any, { address, block, timestamp }: { address: string; block?: bigint; timestamp?: string }) {
+      return await new BalanceHistoryService().getBalanceAt(address, {
+        blockNumber: block !== undefined && block !== null ? block.toString() : undefined,
+        timestamp: timestamp ? Math.floor(new Date(timestamp).getTime() / 1000) : undefined,
+      });
+    },
+
+    async balanceHistory(
+      _: any,
+      { address, resolution, fromDate, toDate }: { address: string; resolution: string; fromDate?: string; toDate?: string }
+    ) {
+      const fromTimestamp = fromDate ? Math.floor(new Date(fromDate).getTime() / 1000) : 0;
+      const toTimestamp = toDate ? Math.floor(new Date(toDate).getTime() / 1000) : 2147483647;
+
+      return await new BalanceHistoryService().getBalanceHistory(address, resolution as SnapshotResolution, fromTimestamp, toTimestamp);
+    },
+
     async syncStatus() {
       const syncStateRepo = AppDataSource.getRepository(SyncState);
       const syncState = await syncStateRepo.findOne({ where: { key: 'main' } });
+
+      // Per-contract checkpoints - a contract behind the main checkpoint is being back-filled
+      const contracts = await Promise.all(
+        loadContractRegistry().map(async (contract) => {
+          const contractState = await syncStateRepo.findOne({ where: { key: getSyncStateKey(contract) } });
+          return {
+            name: contract.name,
+            address: contract.address,
+            handler: contract.handler,
+            startBlock: contract.startBlock.toString(),
+            lastBlockNumber: contractState?.lastBlockNumber || (contract.startBlock - 1).toString(),
+          };
+        })
+      );
+
+      // Events whose normalized processing failed and are waiting for a retry
+      const deadLetterCount = await new DeadLetterService().count();
       
       return {
         lastBlockNumber: syncState?.lastBlockNumber || '0',
         isScanning: true, // This would be tracked by the scanner
         currentBlockNumber: syncState?.lastBlockNumber || '0',
+        contracts,
+        deadLetterCount,
+        confirmations: config.confirmations,
+        // Health of the RPC endpoints shared by the scanner and the snapshots
+        rpcEndpoints: getProviderPool().getEndpointStatus(),
       };
     },
 
@@ -625,6 +997,646 @@ export const resolvers = {
         totalCount,
       };
     },
+
+    async nodeIncidents(
+      _: any,
+      {
+        first = 50,
+        after,
+        nodeAddress,
+        open,
+      }: {
+        first: number;
+        after?: string;
+        nodeAddress?: string;
+        open?: boolean;
+      }
+    ) {
+      const repo = AppDataSource.getRepository(NodeIncident);
+      let query = repo.createQueryBuilder('incident');
+
+      // Apply filters
+      if (nodeAddress) {
+        query = query.andWhere('incident.nodeAddress = LOWER(:nodeAddress)', { nodeAddress });
+      }
+      if (open !== undefined && open !== null) {
+        query = query.andWhere(open ? 'incident.recoveryBlock IS NULL' : 'incident.recoveryBlock IS NOT NULL');
+      }
+
+      // Apply cursor-based pagination (newest first)
+      if (after) {
+        const afterId = parseInt(after);
+        query = query.andWhere('incident.id < :afterId', { afterId });
+      }
+
+      // Get total count
+      const totalCount = await query.getCount();
+
+      // Apply ordering and limit
+      query = query
+        .orderBy('incident.id', 'DESC')
+        .limit(first);
+
+      const incidents = await query.getMany();
+
+      const edges = incidents.map((incident) => ({
+        node: incident,
+        cursor: incident.id.toString(),
+      }));
+
+      const hasNextPage = incidents.length === first;
+      const hasPreviousPage = !!after;
+
+      return {
+        edges,
+        pageInfo: {
+          hasNextPage,
+          hasPreviousPage,
+          startCursor: edges[0]?.cursor || null,
+          endCursor: edges[edges.length - 1]?.cursor || null,
+        },
+        totalCount,
+      };
+    },
+
+    async nodeIncidentStats(_: any, { fromDate, toDate }: { fromDate?: string; toDate?: string }) {
+      let query = AppDataSource.getRepository(NodeIncident)
+        .createQueryBuilder('incident')
+        .select('COUNT(*)', 'incidentsCount')
+        .addSelect('COUNT(*) FILTER (WHERE incident.recoveryBlock IS NULL)', 'openCount')
+        .addSelect('COUNT(DISTINCT incident.nodeAddress)', 'affectedNodesCount')
+        .addSelect('COALESCE(SUM(incident.stakedAmount) FILTER (WHERE incident.recoveryBlock IS NULL), 0)', 'amountAtRisk')
+        .addSelect('COALESCE(SUM(incident.recoveredAmount), 0)', 'totalRecovered')
+        .addSelect('AVG(incident.recoveryTimestamp - incident.faultyTimestamp)', 'averageRecoverySeconds');
+
+      if (fromDate) {
+        const fromTimestamp = Math.floor(new Date(fromDate).getTime() / 1000);
+        query = query.andWhere('incident.faultyTimestamp >= :fromTimestamp', { fromTimestamp });
+      }
+      if (toDate) {
+        const toTimestamp = Math.floor(new Date(toDate).getTime() / 1000);
+        query = query.andWhere('incident.faultyTimestamp <= :toTimestamp', { toTimestamp });
+      }
+
+      const stats = await query.getRawOne();
+      const incidentsCount = parseInt(stats.incidentsCount);
+      const openCount = parseInt(stats.openCount);
+      return {
+        incidentsCount,
+        openCount,
+        recoveredCount: incidentsCount - openCount,
+        affectedNodesCount: parseInt(stats.affectedNodesCount),
+        amountAtRisk: stats.amountAtRisk,
+        totalRecovered: stats.totalRecovered,
+        averageRecoverySeconds: stats.averageRecoverySeconds === null ? null : parseFloat(stats.averageRecoverySeconds),
+      };
+    },
+
+    async treasuryFlows(
+      _: any,
+      {
+        first = 50,
+        after,
+        flowType,
+        fromDate,
+        toDate,
+      }: {
+        first: number;
+        after?: string;
+        flowType?: string;
+        fromDate?: string;
+        toDate?: string;
+      }
+    ) {
+      const repo = AppDataSource.getRepository(TreasuryFlow);
+      let query = repo.createQueryBuilder('flow');
+
+      // Apply filters
+      if (flowType) {
+        query = query.andWhere('flow.flowType = :flowType', { flowType });
+      }
+      if (fromDate) {
+        const fromTimestamp = Math.floor(new Date(fromDate).getTime() / 1000);
+        query = query.andWhere('flow.timestamp >= :fromTimestamp', { fromTimestamp });
+      }
+      if (toDate) {
+        const toTimestamp = Math.floor(new Date(toDate).getTime() / 1000);
+        query = query.andWhere('flow.timestamp <= :toTimestamp', { toTimestamp });
+      }
+
+      // Apply cursor-based pagination (newest first)
+      if (after) {
+        const afterId = parseInt(after);
+        query = query.andWhere('flow.id < :afterId', { afterId });
+      }
+
+      // Get total count
+      const totalCount = await query.getCount();
+
+      // Apply ordering and limit
+      query = query
+        .orderBy('flow.id', 'DESC')
+        .limit(first);
+
+      const flows = await query.getMany();
+
+      const edges = flows.map((flow) => ({
+        node: flow,
+        cursor: flow.id.toString(),
+      }));
+
+      const hasNextPage = flows.length === first;
+      const hasPreviousPage = !!after;
+
+      return {
+        edges,
+        pageInfo: {
+          hasNextPage,
+          hasPreviousPage,
+          startCursor: edges[0]?.cursor || null,
+          endCursor: edges[edges.length - 1]?.cursor || null,
+        },
+        totalCount,
+      };
+    },
+
+    async dailyTreasuryIncome(_: any, { fromDate, toDate }: { fromDate?: string; toDate?: string }) {
+      const fromTimestamp = fromDate ? Math.floor(new Date(fromDate).getTime() / 1000) : 0;
+      const toTimestamp = toDate ? Math.floor(new Date(toDate).getTime() / 1000) : 2147483647;
+      const day = (column: string) => `to_char(to_timestamp(${column}) AT TIME ZONE 'UTC', 'YYYY-MM-DD')`;
+
+      const [flows, staked] = await Promise.all([
+        AppDataSource.getRepository(TreasuryFlow)
+          .createQueryBuilder('flow')
+          .select(day('flow.timestamp'), 'date')
+          .addSelect('COALESCE(SUM(flow.amount) FILTER (WHERE flow.flowType = :stakingReward), 0)', 'stakingRewards')
+          .addSelect('COALESCE(SUM(flow.amount) FILTER (WHERE flow.flowType = :unstakeReturn), 0)', 'unstakeReturns')
+          .addSelect('COALESCE(SUM(flow.amount) FILTER (WHERE flow.flowType = :userDeposit), 0)', 'userDeposits')
+          .addSelect('COALESCE(SUM(flow.amount) FILTER (WHERE flow.flowType = :fallback), 0)', 'fallbackTransfers')
+          .addSelect('COALESCE(SUM(flow.amount) FILTER (WHERE flow.flowType = :keeperTipSurplus), 0)', 'keeperTipSurplus')
+          .addSelect('COALESCE(SUM(flow.amount) FILTER (WHERE flow.flowType = :unclassified), 0)', 'unclassified')
+          .where('flow.timestamp BETWEEN :fromTimestamp AND :toTimestamp', { fromTimestamp, toTimestamp })
+          .setParameters({
+            stakingReward: TreasuryFlowType.STAKING_REWARD,
+            unstakeReturn: TreasuryFlowType.UNSTAKE_RETURN,
+            userDeposit: TreasuryFlowType.USER_DEPOSIT,
+            fallback: TreasuryFlowType.FALLBACK,
+            keeperTipSurplus: TreasuryFlowType.KEEPER_TIP_SURPLUS,
+            unclassified: TreasuryFlowType.UNCLASSIFIED,
+          })
+          .groupBy('"date"')
+          .orderBy('"date"', 'ASC')
+          .getRawMany(),
+        AppDataSource.getRepository(HourlySnapshot)
+          .createQueryBuilder('snapshot')
+          .select(day('snapshot.snapshotTimestamp'), 'date')
+          .addSelect('TRUNC(AVG(snapshot.tfuelStakedAmount))::text', 'averageStakedAmount')
+          .where('snapshot.snapshotTimestamp BETWEEN :fromTimestamp AND :toTimestamp', { fromTimestamp, toTimestamp })
+          .groupBy('"date"')
+          .getRawMany(),
+      ]);
+
+      const stakedByDate = new Map<string, string>(staked.map((row) => [row.date, row.averageStakedAmount]));
+      return flows.map((row) => {
+        const averageStakedAmount = stakedByDate.get(row.date) ?? null;
+        // Annualized in percent, with 4 decimals kept through the bigint division
+        const realizedApr = averageStakedAmount && BigInt(averageStakedAmount) > BigInt(0)
+          ? Number((BigInt(row.stakingRewards) * BigInt(365) * BigInt(1000000)) / BigInt(averageStakedAmount)) / 10000
+          : null;
+
+        return { ...row, averageStakedAmount, realizedApr };
+      });
+    },
+
+    async redemptionQueueStats(
+      _: any,
+      {
+        fromDate,
+        toDate,
+        stuckAfterBlocks = 0,
+      }: {
+        fromDate?: string;
+        toDate?: string;
+        stuckAfterBlocks?: number;
+      }
+    ) {
+      const repo = AppDataSource.getRepository(RedemptionQueue);
+
+      // Wait of settled entries: credited by the keeper, or claimed directly as head of the queue
+      let waitQuery = repo.createQueryBuilder('redemption')
+        .select('COUNT(*)', 'settledCount')
+        .addSelect('AVG(COALESCE(redemption.creditedTimestamp, redemption.claimedTimestamp) - redemption.requestTimestamp)', 'averageWaitSeconds')
+        .addSelect('percentile_cont(0.95) WITHIN GROUP (ORDER BY COALESCE(redemption.creditedTimestamp, redemption.claimedTimestamp) - redemption.requestTimestamp)', 'p95WaitSeconds')
+        .addSelect('AVG(COALESCE(redemption.creditedBlock, redemption.claimedBlock) - redemption.requestBlock)', 'averageWaitBlocks')
+        .addSelect('percentile_cont(0.95) WITHIN GROUP (ORDER BY COALESCE(redemption.creditedBlock, redemption.claimedBlock) - redemption.requestBlock)', 'p95WaitBlocks')
+        .where('redemption.status IN (:...settled)', {
+          settled: [RedemptionStatus.CREDITED, RedemptionStatus.CLAIMED],
+        })
+        .andWhere('COALESCE(redemption.creditedTimestamp, redemption.claimedTimestamp) IS NOT NULL');
+
+      if (fromDate) {
+        const fromTimestamp = Math.floor(new Date(fromDate).getTime() / 1000);
+        waitQuery = waitQuery.andWhere('redemption.requestTimestamp >= :fromTimestamp', { fromTimestamp });
+      }
+      if (toDate) {
+        const toTimestamp = Math.floor(new Date(toDate).getTime() / 1000);
+        waitQuery = waitQuery.andWhere('redemption.requestTimestamp <= :toTimestamp', { toTimestamp });
+      }
+
+      const syncState = await AppDataSource.getRepository(SyncState).findOne({ where: { key: 'main' } });
+      const stuckBefore = BigInt(syncState?.lastBlockNumber || '0') - BigInt(stuckAfterBlocks);
+
+      const [wait, backlog] = await Promise.all([
+        waitQuery.getRawOne(),
+        repo.createQueryBuilder('redemption')
+          .select('COUNT(*) FILTER (WHERE redemption.status = :pending)', 'pendingCount')
+          .addSelect('COUNT(*) FILTER (WHERE redemption.status = :unlockable)', 'unlockableCount')
+          .addSelect('COALESCE(SUM(redemption.tfuelAmountExpected) FILTER (WHERE redemption.status IN (:pending, :unlockable)), 0)', 'backlogAmount')
+          .addSelect('COALESCE(SUM(redemption.tfuelAmountExpected) FILTER (WHERE redemption.status = :credited), 0)', 'unclaimedCreditsAmount')
+          .addSelect('COUNT(*) FILTER (WHERE redemption.status = :unlockable AND redemption.unlockBlockNumber <= :stuckBefore)', 'stuckCount')
+          .addSelect('COALESCE(SUM(redemption.tfuelAmountExpected) FILTER (WHERE redemption.status = :unlockable AND redemption.unlockBlockNumber <= :stuckBefore), 0)', 'stuckAmount')
+          .addSelect('MIN(redemption.unlockBlockNumber) FILTER (WHERE redemption.status = :unlockable AND redemption.unlockBlockNumber <= :stuckBefore)', 'oldestStuckUnlockBlock')
+          .setParameters({
+            pending: RedemptionStatus.PENDING,
+            unlockable: RedemptionStatus.UNLOCKABLE,
+            credited: RedemptionStatus.CREDITED,
+            stuckBefore: stuckBefore.toString(),
+          })
+          .getRawOne(),
+      ]);
+
+      const toNumber = (value: string | null) => (value === null ? null : parseFloat(value));
+      return {
+        settledCount: parseInt(wait.settledCount),
+        averageWaitSeconds: toNumber(wait.averageWaitSeconds),
+        p95WaitSeconds: toNumber(wait.p95WaitSeconds),
+        averageWaitBlocks: toNumber(wait.averageWaitBlocks),
+        p95WaitBlocks: toNumber(wait.p95WaitBlocks),
+        pendingCount: parseInt(backlog.pendingCount),
+        unlockableCount: parseInt(backlog.unlockableCount),
+        backlogAmount: backlog.backlogAmount,
+        unclaimedCreditsAmount: backlog.unclaimedCreditsAmount,
+        stuckCount: parseInt(backlog.stuckCount),
+        stuckAmount: backlog.stuckAmount,
+        oldestStuckUnlockBlock: backlog.oldestStuckUnlockBlock,
+      };
+    },
+
+    async roleOperations(
+      _: any,
+      {
+        first = 50,
+        after,
+        status,
+        account,
+        target,
+      }: {
+        first: number;
+        after?: string;
+        status?: string;
+        account?: string;
+        target?: string;
+      }
+    ) {
+      const repo = AppDataSource.getRepository(RoleOperation);
+      let query = repo.createQueryBuilder('operation');
+
+      // Apply filters
+      if (status) {
+        query = query.andWhere('operation.status = :status', { status });
+      }
+      if (account) {
+        query = query.andWhere('operation.account = LOWER(:account)', { account });
+      }
+      if (target) {
+        query = query.andWhere('operation.target = LOWER(:target)', { target });
+      }
+
+      // Apply cursor-based pagination - newest operations first
+      if (after) {
+        const afterId = parseInt(after);
+        query = query.andWhere('operation.id < :afterId', { afterId });
+      }
+
+      // Get total count
+      const totalCount = await query.getCount();
+
+      // Apply ordering and limit
+      query = query
+        .orderBy('operation.id', 'DESC')
+        .limit(first);
+
+      const operations = await query.getMany();
+
+      const edges = operations.map((operation) => ({
+        node: operation,
+        cursor: operation.id.toString(),
+      }));
+
+      const hasNextPage = operations.length === first;
+      const hasPreviousPage = !!after;
+
+      return {
+        edges,
+        pageInfo: {
+          hasNextPage,
+          hasPreviousPage,
+          startCursor: edges[0]?.cursor || null,
+          endCursor: edges[edges.length - 1]?.cursor || null,
+        },
+        totalCount,
+      };
+    },
+
+    async roleMembers(_: any, { contract, role }: { contract: string; role?: string }) {
+      let query = AppDataSource.getRepository(RoleMember)
+        .createQueryBuilder('member')
+        .where('member.contractAddress = :contractAddress', { contractAddress: resolveContractAddress(contract) });
+
+      if (role) {
+        query = query.andWhere('member.role = :role', { role: getRoleHash(role) });
+      }
+
+      return query
+        .orderBy('member.role', 'ASC')
+        .addOrderBy('member.grantedBlock', 'ASC')
+        .getMany();
+    },
+
+    async roleHistory(
+      _: any,
+      {
+        first = 50,
+        after,
+        contract,
+        role,
+        account,
+      }: {
+        first: number;
+        after?: string;
+        contract?: string;
+        role?: string;
+        account?: string;
+      }
+    ) {
+      const repo = AppDataSource.getRepository(RoleChange);
+      let query = repo.createQueryBuilder('change');
+
+      // Apply filters
+      if (contract) {
+        query = query.andWhere('change.contractAddress = :contractAddress', { contractAddress: resolveContractAddress(contract) });
+      }
+      if (role) {
+        query = query.andWhere('change.role = :role', { role: getRoleHash(role) });
+      }
+      if (account) {
+        query = query.andWhere('change.account = LOWER(:account)', { account });
+      }
+
+      // Apply cursor-based pagination - newest changes first
+      if (after) {
+        const afterId = parseInt(after);
+        query = query.andWhere('change.id < :afterId', { afterId });
+      }
+
+      // Get total count
+      const totalCount = await query.getCount();
+
+      // Apply ordering and limit
+      query = query
+        .orderBy('change.id', 'DESC')
+        .limit(first);
+
+      const changes = await query.getMany();
+
+      const edges = changes.map((change) => ({
+        node: change,
+        cursor: change.id.toString(),
+      }));
+
+      const hasNextPage = changes.length === first;
+      const hasPreviousPage = !!after;
+
+      return {
+        edges,
+        pageInfo: {
+          hasNextPage,
+          hasPreviousPage,
+          startCursor: edges[0]?.cursor || null,
+          endCursor: edges[edges.length - 1]?.cursor || null,
+        },
+        totalCount,
+      };
+    },
+
+    async protocolConfig(_: any, { atBlock }: { atBlock?: bigint }) {
+      let query = AppDataSource.getRepository(ProtocolParameter)
+        .createQueryBuilder('param')
+        .distinctOn(['param.parameter']);
+
+      if (atBlock !== undefined && atBlock !== null) {
+        query = query.where('param.blockNumber <= :atBlock', { atBlock: atBlock.toString() });
+      }
+
+      // Latest change of each parameter at or before the block
+      const changes = await query
+        .orderBy('param.parameter', 'ASC')
+        .addOrderBy('param.blockNumber', 'DESC')
+        .addOrderBy('param.logIndex', 'DESC')
+        .getMany();
+
+      const config: { [parameter: string]: any } = { atBlock: atBlock ?? null };
+      for (const parameter of Object.values(ProtocolParameterName)) {
+        const change = changes.find(entry => entry.parameter === parameter);
+        const initialValue = PROTOCOL_PARAMETER_DEFAULTS[parameter];
+
+        if (change) {
+          config[parameter] = {
+            value: change.value,
+            blockNumber: change.blockNumber,
+            timestamp: change.timestamp,
+            transactionHash: change.transactionHash,
+          };
+        } else if (initialValue !== undefined) {
+          config[parameter] = { value: initialValue, blockNumber: null, timestamp: null, transactionHash: null };
+        } else {
+          config[parameter] = null;
+        }
+      }
+
+      return config;
+    },
+
+    async referralLeaderboard(_: any, { first = 20, fromDate, toDate }: { first: number; fromDate?: string; toDate?: string }) {
+      return getReferralStats({ fromDate, toDate, limit: first });
+    },
+
+    async referral(_: any, { referralId, fromDate, toDate }: { referralId: string; fromDate?: string; toDate?: string }) {
+      const [stats] = await getReferralStats({ referralId, fromDate, toDate });
+      if (stats) {
+        return stats;
+      }
+
+      // Referral ids with a payout address but no rewards in the period
+      const known = await AppDataSource.getRepository(Referral).count({ where: { referralId } });
+      if (known === 0) {
+        return null;
+      }
+
+      return {
+        referralId,
+        rewardsCount: 0,
+        totalRewardShares: '0',
+        totalReferredTFuel: '0',
+        uniqueMinters: 0,
+        firstRewardTimestamp: null,
+        lastRewardTimestamp: null,
+      };
+    },
+
+    async referralRewards(
+      _: any,
+      {
+        first = 50,
+        after,
+        referralId,
+        referrer,
+        fromDate,
+        toDate,
+      }: {
+        first: number;
+        after?: string;
+        referralId?: string;
+        referrer?: string;
+        fromDate?: string;
+        toDate?: string;
+      }
+    ) {
+      const repo = AppDataSource.getRepository(ReferralReward);
+      let query = repo.createQueryBuilder('reward');
+
+      // Apply filters
+      if (referralId) {
+        query = query.andWhere('reward.referralId = :referralId', { referralId });
+      }
+      if (referrer) {
+        query = query.andWhere('reward.referrer = LOWER(:referrer)', { referrer });
+      }
+      if (fromDate) {
+        const fromTimestamp = Math.floor(new Date(fromDate).getTime() / 1000);
+        query = query.andWhere('reward.timestamp >= :fromTimestamp', { fromTimestamp });
+      }
+      if (toDate) {
+        const toTimestamp = Math.floor(new Date(toDate).getTime() / 1000);
+        query = query.andWhere('reward.timestamp <= :toTimestamp', { toTimestamp });
+      }
+
+      // Apply cursor-based pagination - newest rewards first
+      if (after) {
+        const afterId = parseInt(after);
+        query = query.andWhere('reward.id < :afterId', { afterId });
+      }
+
+      // Get total count
+      const totalCount = await query.getCount();
+
+      // Apply ordering and limit
+      query = query
+        .orderBy('reward.id', 'DESC')
+        .limit(first);
+
+      const rewards = await query.getMany();
+
+      const edges = rewards.map((reward) => ({
+        node: reward,
+        cursor: reward.id.toString(),
+      }));
+
+      const hasNextPage = rewards.length === first;
+      const hasPreviousPage = !!after;
+
+      return {
+        edges,
+        pageInfo: {
+          hasNextPage,
+          hasPreviousPage,
+          startCursor: edges[0]?.cursor || null,
+          endCursor: edges[edges.length - 1]?.cursor || null,
+        },
+        totalCount,
+      };
+    },
+
+    async referralNfts(
+      _: any,
+      {
+        first = 100,
+        after,
+        owner,
+        payoutMismatch,
+      }: {
+        first: number;
+        after?: string;
+        owner?: string;
+        payoutMismatch?: boolean;
+      }
+    ) {
+      const repo = AppDataSource.getRepository(ReferralNft);
+      let query = repo.createQueryBuilder('nft');
+
+      // Apply filters
+      if (owner) {
+        query = query.andWhere('nft.owner = LOWER(:owner)', { owner });
+      }
+      if (payoutMismatch !== undefined && payoutMismatch !== null) {
+        const mismatch = `EXISTS (
+          SELECT 1 FROM "referrals" "referral"
+          WHERE "referral"."referralId" = nft.tokenId
+            AND "referral"."replacedBlock" IS NULL
+            AND "referral"."payoutAddress" <> nft.owner
+        )`;
+        query = query.andWhere(payoutMismatch ? mismatch : `NOT ${mismatch}`);
+      }
+
+      // Apply cursor-based pagination
+      if (after) {
+        const afterId = parseInt(after);
+        query = query.andWhere('nft.id > :afterId', { afterId });
+      }
+
+      // Get total count
+      const totalCount = await query.getCount();
+
+      // Apply ordering and limit
+      query = query
+        .orderBy('nft.id', 'ASC')
+        .limit(first);
+
+      const nfts = await query.getMany();
+
+      const edges = nfts.map((nft) => ({
+        node: nft,
+        cursor: nft.id.toString(),
+      }));
+
+      const hasNextPage = nfts.length === first;
+      const hasPreviousPage = !!after;
+
+      return {
+        edges,
+        pageInfo: {
+          hasNextPage,
+          hasPreviousPage,
+          startCursor: edges[0]?.cursor || null,
+          endCursor: edges[edges.length - 1]?.cursor || null,
+        },
+        totalCount,
+      };
+    },
+
+    async referralNft(_: any, { tokenId }: { tokenId: string }) {
+      return AppDataSource.getRepository(ReferralNft).findOne({ where: { tokenId } });
+    },
   },
 };
 
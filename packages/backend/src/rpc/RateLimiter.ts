@@ -0,0 +1,43 @@
+/**
+ * Token bucket limiting the number of requests per second. Up to one second worth of
+ * requests may be sent in a burst; a rate of 0 disables the limit.
+ */
+export class RateLimiter {
+  private ratePerSecond: number;
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(ratePerSecond: number) {
+    this.ratePerSecond = ratePerSecond;
+    this.tokens = ratePerSecond;
+    this.lastRefill = Date.now();
+  }
+
+  async acquire(count: number = 1): Promise<void> {
+    if (this.ratePerSecond <= 0) {
+      return;
+    }
+
+    // A request larger than the bucket waits for a full bucket instead of forever
+    const needed = Math.min(count, this.ratePerSecond);
+
+    while (true) {
+      this.refill();
+      if (this.tokens >= needed) {
+        this.tokens -= needed;
+        return;
+      }
+
+      const waitMs = Math.ceil(((needed - this.tokens) / this.ratePerSecond) * 1000);
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.ratePerSecond, this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+}
+
+export default RateLimiter;
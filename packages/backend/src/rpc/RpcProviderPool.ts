@@ -0,0 +1,415 @@
+import { ethers } from 'ethers';
+import { config } from '../config/environment';
+import { RateLimiter } from './RateLimiter';
+
+export interface RpcProviderPoolOptions {
+  // Endpoints tried per request before it fails
+  retryAttempts: number;
+  // Pause before another round once every endpoint failed a request
+  retryDelay: number;
+  timeout: number;
+  // Global limit over all endpoints, counted in JSON-RPC calls (0 = unlimited)
+  maxRequestsPerSecond: number;
+  // Endpoints whose head is further behind the best endpoint are marked as lagging
+  maxLagBlocks: number;
+  // Interval between eth_blockNumber probes of every endpoint
+  headCheckInterval: number;
+  // Upper bound of the calls per JSON-RPC batch request (1 disables batching)
+  maxBatchSize: number;
+}
+
+export interface RpcEndpointStatus {
+  // Host only - RPC URLs may carry API keys
+  host: string;
+  healthy: boolean;
+  lagging: boolean;
+  latencyMs: number;
+  errorRate: number;
+  headBlock: number | null;
+  batchSize: number;
+  requestCount: number;
+  errorCount: number;
+  lastError: string | null;
+}
+
+interface RpcEndpoint {
+  host: string;
+  connection: ethers.FetchRequest;
+  // Moving averages of the response time and of the share of failed requests
+  latencyMs: number;
+  errorRate: number;
+  headBlock: number | null;
+  lagging: boolean;
+  consecutiveErrors: number;
+  // Failing endpoints are skipped until then
+  cooldownUntil: number;
+  // Calls per batch request the endpoint currently accepts
+  batchSize: number;
+  requestCount: number;
+  errorCount: number;
+  lastError: string | null;
+}
+
+// Weight of the latest request in the latency / error rate moving averages
+const EMA_WEIGHT = 0.2;
+// Cooldown after a failure, doubled per consecutive failure
+const BASE_COOLDOWN = 5000;
+const MAX_COOLDOWN = 120000;
+// Per-call errors caused by the endpoint's load or batch limits rather than by the call itself
+const TRANSIENT_ERROR_PATTERN = /rate limit|limit exceeded|too many requests|batch|timed? ?out|try again|busy/i;
+const LIMIT_EXCEEDED_CODE = -32005;
+
+/**
+ * JSON-RPC provider spreading reads over several endpoints. Each request goes to the
+ * healthiest endpoint - lowest latency weighted by recent error rate, skipping
+ * endpoints that are cooling down after failures or lag behind the others - and
+ * fails over to the next one on transport errors and transient JSON-RPC errors (rate
+ * limits). Other JSON-RPC errors (reverts, invalid params) are returned to the caller
+ * as they are, since every endpoint would answer the same.
+ *
+ * Calls issued in the same tick are combined into JSON-RPC batch requests by ethers.
+ * The pool splits them to the batch size each endpoint currently accepts: the size is
+ * halved when a batch is rejected or some of its calls fail with transient errors,
+ * and grows again while batches succeed. Failed calls are split off and retried.
+ */
+export class RpcProviderPool extends ethers.JsonRpcProvider {
+  private endpoints: RpcEndpoint[];
+  private options: RpcProviderPoolOptions;
+  private rateLimiter: RateLimiter;
+  private lastHeadCheck: number = 0;
+  private headCheckRunning: boolean = false;
+
+  constructor(urls: string[], options: RpcProviderPoolOptions) {
+    if (urls.length === 0) {
+      throw new Error('At least one RPC URL is required');
+    }
+
+    super(urls[0], undefined, { batchMaxCount: Math.max(options.maxBatchSize, 1) });
+    this.options = options;
+    this.rateLimiter = new RateLimiter(options.maxRequestsPerSecond);
+    this.endpoints = urls.map(url => {
+      const connection = new ethers.FetchRequest(url);
+      connection.timeout = options.timeout;
+
+      return {
+        host: new URL(url).host,
+        connection,
+        latencyMs: 0,
+        errorRate: 0,
+        headBlock: null,
+        lagging: false,
+        consecutiveErrors: 0,
+        cooldownUntil: 0,
+        batchSize: Math.max(options.maxBatchSize, 1),
+        requestCount: 0,
+        errorCount: 0,
+        lastError: null,
+      };
+    });
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<ethers.JsonRpcResult[]> {
+    this.checkHeadsIfDue();
+
+    return Array.isArray(payload) ? this.sendBatch(payload) : this.sendWithFailover(payload);
+  }
+
+  private async sendWithFailover(payload: ethers.JsonRpcPayload): Promise<ethers.JsonRpcResult[]> {
+    const tried = new Set<RpcEndpoint>();
+    let lastError: any = null;
+
+    for (let attempt = 0; attempt < this.options.retryAttempts; attempt++) {
+      if (tried.size === this.endpoints.length) {
+        // Every endpoint failed this request - give them a moment before the next round
+        tried.clear();
+        await new Promise(resolve => setTimeout(resolve, this.options.retryDelay));
+      }
+
+      const endpoint = this.selectEndpoint(tried);
+      tried.add(endpoint);
+
+      try {
+        await this.rateLimiter.acquire();
+        const results: any[] = await this.sendTo(endpoint, payload);
+        if (results[0] && this.isTransientError(results[0])) {
+          // Rate limits and the like are specific to the endpoint - try another one
+          const error = new Error(results[0].error.message);
+          this.recordFailure(endpoint, error);
+          throw error;
+        }
+        return results;
+      } catch (error: any) {
+        lastError = error;
+        console.warn(`RPC request to ${endpoint.host} failed (attempt ${attempt + 1}):`, error.message);
+      }
+    }
+
+    throw new Error(`RPC request failed after ${this.options.retryAttempts} attempts. Last error: ${lastError?.message}`);
+  }
+
+  /**
+   * Send calls as batch requests of at most the selected endpoint's batch size. A
+   * rejected batch is split in halves, calls without a result or with a transient
+   * error are split off and sent again; single calls fall back to plain requests with
+   * failover.
+   */
+  private async sendBatch(payloads: ethers.JsonRpcPayload[]): Promise<ethers.JsonRpcResult[]> {
+    if (payloads.length === 1) {
+      return this.sendWithFailover(payloads[0]);
+    }
+
+    const endpoint = this.selectEndpoint(new Set());
+    if (payloads.length > endpoint.batchSize) {
+      const chunks: ethers.JsonRpcPayload[][] = [];
+      for (let i = 0; i < payloads.length; i += endpoint.batchSize) {
+        chunks.push(payloads.slice(i, i + endpoint.batchSize));
+      }
+      return (await Promise.all(chunks.map(chunk => this.sendBatch(chunk)))).flat();
+    }
+
+    let results: any[];
+    try {
+      await this.rateLimiter.acquire(payloads.length);
+      results = await this.sendTo(endpoint, payloads);
+    } catch (error: any) {
+      this.shrinkBatchSize(endpoint, payloads.length, error.message);
+      return this.splitBatch(payloads);
+    }
+
+    const resultsById = new Map(results.map(result => [result.id, result]));
+    const failed = payloads.filter(payload => {
+      const result = resultsById.get(payload.id);
+      return !result || this.isTransientError(result);
+    });
+    if (failed.length === 0) {
+      this.growBatchSize(endpoint, payloads.length);
+      return results;
+    }
+
+    this.shrinkBatchSize(endpoint, payloads.length, `${failed.length} of ${payloads.length} calls failed`);
+    const failedIds = new Set(failed.map(payload => payload.id));
+
+    return [
+      ...payloads.filter(payload => !failedIds.has(payload.id)).map(payload => resultsById.get(payload.id)),
+      ...(await this.splitBatch(failed)),
+    ];
+  }
+
+  private async splitBatch(payloads: ethers.JsonRpcPayload[]): Promise<ethers.JsonRpcResult[]> {
+    const middle = Math.ceil(payloads.length / 2);
+    const halves = await Promise.all([
+      this.sendBatch(payloads.slice(0, middle)),
+      payloads.length > 1 ? this.sendBatch(payloads.slice(middle)) : Promise.resolve([]),
+    ]);
+
+    return halves.flat();
+  }
+
+  private isTransientError(result: any): boolean {
+    if (!result.error) {
+      return false;
+    }
+
+    return result.error.code === LIMIT_EXCEEDED_CODE || TRANSIENT_ERROR_PATTERN.test(result.error.message || '');
+  }
+
+  private shrinkBatchSize(endpoint: RpcEndpoint, attemptedSize: number, reason: string): void {
+    // Based on the failed batch, so concurrent failures of the same size shrink only once
+    const batchSize = Math.max(Math.floor(attemptedSize / 2), 1);
+    if (batchSize < endpoint.batchSize) {
+      console.warn(`RPC batch of ${attemptedSize} calls to ${endpoint.host} failed (${reason}), reducing batch size to ${batchSize}`);
+      endpoint.batchSize = batchSize;
+    }
+  }
+
+  // Grow by a quarter after a full-size batch succeeded, up to the configured maximum
+  private growBatchSize(endpoint: RpcEndpoint, attemptedSize: number): void {
+    if (attemptedSize >= endpoint.batchSize) {
+      endpoint.batchSize = Math.min(endpoint.batchSize + Math.max(Math.floor(endpoint.batchSize / 4), 1), this.options.maxBatchSize);
+    }
+  }
+
+  getEndpointStatus(): RpcEndpointStatus[] {
+    const now = Date.now();
+
+    return this.endpoints.map(endpoint => ({
+      host: endpoint.host,
+      healthy: endpoint.cooldownUntil <= now && !endpoint.lagging,
+      lagging: endpoint.lagging,
+      latencyMs: Math.round(endpoint.latencyMs),
+      errorRate: endpoint.errorRate,
+      headBlock: endpoint.headBlock,
+      batchSize: endpoint.batchSize,
+      requestCount: endpoint.requestCount,
+      errorCount: endpoint.errorCount,
+      lastError: endpoint.lastError,
+    }));
+  }
+
+  /**
+   * Pick the endpoint with the best score among the ones not tried yet, preferring
+   * healthy endpoints, then ones that only lag, then any.
+   */
+  private selectEndpoint(exclude: Set<RpcEndpoint>): RpcEndpoint {
+    const now = Date.now();
+    const candidates = this.endpoints.filter(endpoint => !exclude.has(endpoint));
+    const available = candidates.filter(endpoint => endpoint.cooldownUntil <= now);
+    const healthy = available.filter(endpoint => !endpoint.lagging);
+    const pool = healthy.length > 0 ? healthy : available.length > 0 ? available : candidates;
+
+    return pool.reduce((best, endpoint) => (this.score(endpoint) < this.score(best) ? endpoint : best));
+  }
+
+  // Lower is better; endpoints without a sample yet score 0 so they get one
+  private score(endpoint: RpcEndpoint): number {
+    return endpoint.latencyMs * (1 + 4 * endpoint.errorRate);
+  }
+
+  private async sendTo(endpoint: RpcEndpoint, payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<ethers.JsonRpcResult[]> {
+    const request = endpoint.connection.clone();
+    request.body = JSON.stringify(payload);
+    request.setHeader('content-type', 'application/json');
+
+    const startedAt = Date.now();
+    endpoint.requestCount++;
+
+    try {
+      const response = await request.send();
+      response.assertOk();
+
+      const body = response.bodyJson;
+      const results = Array.isArray(body) ? body : [body];
+      this.recordSuccess(endpoint, Date.now() - startedAt);
+      this.observeHead(endpoint, payload, results);
+
+      return results;
+    } catch (error: any) {
+      this.recordFailure(endpoint, error);
+      throw error;
+    }
+  }
+
+  private recordSuccess(endpoint: RpcEndpoint, latencyMs: number): void {
+    endpoint.latencyMs = endpoint.latencyMs === 0 ? latencyMs : endpoint.latencyMs * (1 - EMA_WEIGHT) + latencyMs * EMA_WEIGHT;
+    endpoint.errorRate = endpoint.errorRate * (1 - EMA_WEIGHT);
+    endpoint.consecutiveErrors = 0;
+    endpoint.cooldownUntil = 0;
+  }
+
+  private recordFailure(endpoint: RpcEndpoint, error: any): void {
+    endpoint.errorRate = endpoint.errorRate * (1 - EMA_WEIGHT) + EMA_WEIGHT;
+    endpoint.errorCount++;
+    endpoint.consecutiveErrors++;
+    endpoint.lastError = error?.message || String(error);
+    endpoint.cooldownUntil = Date.now() + Math.min(BASE_COOLDOWN * 2 ** (endpoint.consecutiveErrors - 1), MAX_COOLDOWN);
+  }
+
+  // Track the head reported by any eth_blockNumber call that went through the endpoint
+  private observeHead(endpoint: RpcEndpoint, payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[], results: any[]): void {
+    const requests = Array.isArray(payload) ? payload : [payload];
+
+    for (const request of requests) {
+      if (request.method !== 'eth_blockNumber') {
+        continue;
+      }
+
+      const result = results.find(entry => entry.id === request.id);
+      if (result && result.result !== undefined) {
+        endpoint.headBlock = Number(BigInt(result.result));
+      }
+    }
+
+    this.updateLagging();
+  }
+
+  private updateLagging(): void {
+    const heads = this.endpoints
+      .map(endpoint => endpoint.headBlock)
+      .filter((head): head is number => head !== null);
+    if (heads.length === 0) {
+      return;
+    }
+
+    const bestHead = Math.max(...heads);
+    for (const endpoint of this.endpoints) {
+      const lagging = endpoint.headBlock !== null && bestHead - endpoint.headBlock > this.options.maxLagBlocks;
+      if (lagging && !endpoint.lagging) {
+        console.warn(`RPC ${endpoint.host} lags ${bestHead - endpoint.headBlock!} blocks behind, routing around it`);
+      }
+      endpoint.lagging = lagging;
+    }
+  }
+
+  /**
+   * Probe the head of every endpoint in the background once per interval. This also
+   * brings endpoints back once they answer again after a cooldown.
+   */
+  private checkHeadsIfDue(): void {
+    if (this.endpoints.length < 2 || this.headCheckRunning || Date.now() - this.lastHeadCheck < this.options.headCheckInterval) {
+      return;
+    }
+
+    this.headCheckRunning = true;
+    this.lastHeadCheck = Date.now();
+
+    Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        try {
+          await this.rateLimiter.acquire();
+          await this.sendTo(endpoint, { method: 'eth_blockNumber', params: [], id: 1, jsonrpc: '2.0' });
+        } catch (error: any) {
+          console.warn(`RPC head check of ${endpoint.host} failed:`, error.message);
+        }
+      })
+    ).finally(() => {
+      this.headCheckRunning = false;
+    });
+  }
+}
+
+let providerPool: RpcProviderPool | null = null;
+
+/**
+ * Provider pool over THETA_RPC_URLS shared by everything reading from the chain, so
+ * endpoint health and the rate limit are tracked in one place.
+ */
+export function getProviderPool(): RpcProviderPool {
+  if (!providerPool) {
+    providerPool = new RpcProviderPool(config.thetaRpcUrls, {
+      retryAttempts: Math.max(config.rpcRetryAttempts, config.thetaRpcUrls.length),
+      retryDelay: config.rpcRetryDelay,
+      timeout: config.rpcTimeout,
+      maxRequestsPerSecond: config.rpcMaxRequestsPerSecond,
+      maxLagBlocks: config.rpcMaxLagBlocks,
+      headCheckInterval: config.rpcHeadCheckInterval,
+      maxBatchSize: config.rpcMaxBatchSize,
+    });
+  }
+
+  return providerPool;
+}
+
+let archiveProviderPool: RpcProviderPool | null = null;
+
+/**
+ * Separate provider pool of the snapshot backfill over ARCHIVE_RPC_URLS (THETA_RPC_URLS if
+ * unset), with its own rate limit so a backfill cannot use up the scanner's budget.
+ */
+export function getArchiveProviderPool(): RpcProviderPool {
+  if (!archiveProviderPool) {
+    const urls = config.archiveRpcUrls.length > 0 ? config.archiveRpcUrls : config.thetaRpcUrls;
+    archiveProviderPool = new RpcProviderPool(urls, {
+      retryAttempts: Math.max(config.rpcRetryAttempts, urls.length),
+      retryDelay: config.rpcRetryDelay,
+      timeout: config.rpcTimeout,
+      maxRequestsPerSecond: config.snapshotBackfillMaxRequestsPerSecond,
+      maxLagBlocks: config.rpcMaxLagBlocks,
+      headCheckInterval: config.rpcHeadCheckInterval,
+      maxBatchSize: config.rpcMaxBatchSize,
+    });
+  }
+
+  return archiveProviderPool;
+}
+
+export default RpcProviderPool;
@@ -0,0 +1,103 @@
+import { ethers } from 'ethers';
+
+export interface LogFilter {
+  address: string[];
+  // topic0 alternatives - the events known to the contract ABIs
+  topics: string[][];
+}
+
+export interface AdaptiveLogFetcherOptions {
+  initialRange: number;
+  minRange: number;
+  maxRange: number;
+  // Responses larger than this shrink the range, much smaller ones grow it
+  targetLogsPerRequest: number;
+  retryAttempts: number;
+  retryDelay: number;
+  // Consecutive ranges requested together, which the provider sends as one JSON-RPC batch
+  rangesPerBatch: number;
+}
+
+/**
+ * Fetches logs over large block ranges with eth_getLogs. The number of blocks per
+ * request adapts to the RPC: it is halved when a request fails (too many results,
+ * timeouts) or returns more logs than the target, and doubled while responses stay
+ * small. Several consecutive ranges are requested at once to save round-trips.
+ */
+export class AdaptiveLogFetcher {
+  private provider: ethers.JsonRpcProvider;
+  private options: AdaptiveLogFetcherOptions;
+  private range: number;
+
+  constructor(provider: ethers.JsonRpcProvider, options: AdaptiveLogFetcherOptions) {
+    this.provider = provider;
+    this.options = options;
+    this.range = Math.min(Math.max(options.initialRange, options.minRange), options.maxRange);
+  }
+
+  getRangeSize(): number {
+    return this.range;
+  }
+
+  async getLogs(filter: LogFilter, fromBlock: number, toBlock: number): Promise<ethers.Log[]> {
+    const logs: ethers.Log[] = [];
+    let start = fromBlock;
+    let failures = 0;
+
+    while (start <= toBlock) {
+      const ranges: [number, number][] = [];
+      for (let rangeStart = start; rangeStart <= toBlock && ranges.length < Math.max(this.options.rangesPerBatch, 1); rangeStart += this.range) {
+        ranges.push([rangeStart, Math.min(rangeStart + this.range - 1, toBlock)]);
+      }
+
+      const results = await Promise.allSettled(ranges.map(([rangeStart, rangeEnd]) =>
+        this.provider.getLogs({
+          address: filter.address,
+          topics: filter.topics,
+          fromBlock: rangeStart,
+          toBlock: rangeEnd,
+        })
+      ));
+
+      // Keep the ranges up to the first failed one; the ones after it are requested again
+      for (let i = 0; i < results.length; i++) {
+        const result = results[i];
+        const [rangeStart, rangeEnd] = ranges[i];
+
+        if (result.status === 'fulfilled') {
+          logs.push(...result.value);
+          failures = 0;
+          start = rangeEnd + 1;
+          this.adjustRange(result.value.length);
+          continue;
+        }
+
+        const error = result.reason;
+        failures++;
+        console.warn(`Failed to get logs for blocks ${rangeStart}-${rangeEnd} (range ${this.range}):`, error.message);
+
+        if (this.range > this.options.minRange) {
+          // Retry the same start block with a smaller range
+          this.range = Math.max(Math.floor(this.range / 2), this.options.minRange);
+        } else if (failures >= this.options.retryAttempts) {
+          throw new Error(`Failed to get logs for blocks ${rangeStart}-${rangeEnd} after ${failures} attempts. Last error: ${error.message}`);
+        } else {
+          await new Promise(resolve => setTimeout(resolve, this.options.retryDelay));
+        }
+        break;
+      }
+    }
+
+    return logs;
+  }
+
+  private adjustRange(logCount: number): void {
+    if (logCount > this.options.targetLogsPerRequest) {
+      this.range = Math.max(Math.floor(this.range / 2), this.options.minRange);
+    } else if (logCount < this.options.targetLogsPerRequest / 4) {
+      this.range = Math.min(this.range * 2, this.options.maxRange);
+    }
+  }
+}
+
+export default AdaptiveLogFetcher;
@@ -2,38 +2,81 @@ import { ethers } from 'ethers';
 import { Repository, QueryRunner } from 'typeorm';
 import AppDataSource from '../database/data-source';
 import { SyncState } from '../database/entities/SyncState';
-import { ContractManager } from '../contracts/contracts';
+import { RegisteredContract, loadContractRegistry, getSyncStateKey, getEventTopics } from '../contracts/registry';
+import { getProviderPool } from '../rpc/RpcProviderPool';
 import { EventProcessor } from './EventProcessor';
+import { AdaptiveLogFetcher, LogFilter } from './AdaptiveLogFetcher';
+import { OrderedBatchPipeline } from './OrderedBatchPipeline';
+import { ReorgHandler } from './ReorgHandler';
+import { PendingEventTracker } from './PendingEventTracker';
 import { SnapshotService } from '../services/SnapshotService';
 import NormalizedEventProcessor from '../services/NormalizedEventProcessor';
+import { NormalizedReplayService } from '../services/NormalizedReplayService';
 import { config } from '../config/environment';
 
+interface FetchedBatch {
+  fromBlock: number;
+  toBlock: number;
+  // Blocks with logs for our contracts, in block order
+  blocks: { block: any, logs: any[] }[];
+}
+
 export class BlockScanner {
   private provider: ethers.JsonRpcProvider;
-  private nodeManagerContract: ethers.Contract;
-  private stfuelContract: ethers.Contract;
+  private contracts: RegisteredContract[];
+  // Last block indexed for each registered contract, keyed by contract name
+  private contractCheckpoints: Map<string, number> = new Map();
+  private eventTopics: Map<string, string[]> = new Map();
   private syncStateRepo: Repository<SyncState>;
   private eventProcessor: EventProcessor;
   private normalizedEventProcessor: NormalizedEventProcessor;
+  private normalizedReplayService: NormalizedReplayService;
   private snapshotService: SnapshotService;
+  private reorgHandler: ReorgHandler;
+  private pendingEventTracker: PendingEventTracker;
+  private logFetcher: AdaptiveLogFetcher;
+  // Separate range tuning for back-fills, which query a single contract
+  private backfillLogFetcher: AdaptiveLogFetcher;
+  private batchPipeline: OrderedBatchPipeline;
   private isRunning: boolean = false;
   private currentBlockNumber: number = 0;
   private batchSize: number;
   private maxConcurrentBatches: number;
   private batchDelay: number;
-
-  constructor() {
-    const contractManager = new ContractManager();
-    this.provider = contractManager.getProvider();
-    this.nodeManagerContract = contractManager.getNodeManagerContract();
-    this.stfuelContract = contractManager.getStfuelContract();
+  // Blocks built on top of a block before it is indexed
+  private confirmations: number;
+
+  constructor(provider?: ethers.JsonRpcProvider, contracts?: RegisteredContract[]) {
+    // RPC failover and retries are handled by the shared provider pool
+    this.provider = provider || getProviderPool();
+    this.contracts = contracts || loadContractRegistry();
+    for (const contract of this.contracts) {
+      this.eventTopics.set(contract.name, getEventTopics(contract));
+    }
     this.syncStateRepo = AppDataSource.getRepository(SyncState);
     this.eventProcessor = new EventProcessor();
     this.normalizedEventProcessor = new NormalizedEventProcessor();
+    this.normalizedReplayService = new NormalizedReplayService();
     this.snapshotService = new SnapshotService();
+    this.reorgHandler = new ReorgHandler(this.provider);
+    this.pendingEventTracker = new PendingEventTracker(this.provider);
     this.batchSize = config.batchSize;
     this.maxConcurrentBatches = config.maxConcurrentBatches;
     this.batchDelay = config.batchDelay;
+    this.confirmations = Math.max(config.confirmations, 0);
+
+    const logFetcherOptions = {
+      initialRange: config.logRangeInitial,
+      minRange: config.logRangeMin,
+      maxRange: config.logRangeMax,
+      targetLogsPerRequest: config.logRangeTargetLogs,
+      retryAttempts: config.rpcRetryAttempts,
+      retryDelay: config.rpcRetryDelay,
+      rangesPerBatch: config.logRangesPerBatch,
+    };
+    this.logFetcher = new AdaptiveLogFetcher(this.provider, logFetcherOptions);
+    this.backfillLogFetcher = new AdaptiveLogFetcher(this.provider, logFetcherOptions);
+    this.batchPipeline = new OrderedBatchPipeline(this.maxConcurrentBatches, this.batchDelay);
   }
 
   async start(): Promise<void> {
@@ -43,6 +86,9 @@ export class BlockScanner {
     // Initialize from last synced block or start block
     await this.initializeSyncState();
 
+    // Pending events left from a previous run may belong to reorganized blocks
+    await this.pendingEventTracker.clear();
+
     // Start scanning loop
     this.scanLoop();
   }
@@ -51,9 +97,9 @@ export class BlockScanner {
     console.log('Stopping block scanner...');
     this.isRunning = false;
     
-    // Save current block state
+    // Save the last fully scanned block
     if (this.currentBlockNumber > 0) {
-      await this.updateSyncState(this.currentBlockNumber);
+      await this.updateSyncState(this.currentBlockNumber - 1, this.getLiveContracts());
     }
   }
 
@@ -72,12 +118,48 @@ export class BlockScanner {
       console.error('Error initializing sync state:', error);
       this.currentBlockNumber = config.startBlock;
     }
+
+    await this.loadContractCheckpoints();
+  }
+
+  /**
+   * Load the sync checkpoint of every registered contract. A contract without a
+   * checkpoint (newly added to the registry) starts right before its start block.
+   */
+  private async loadContractCheckpoints(): Promise<void> {
+    this.contractCheckpoints.clear();
+
+    for (const contract of this.contracts) {
+      const syncState = await this.syncStateRepo.findOne({ where: { key: getSyncStateKey(contract) } });
+      const checkpoint = syncState ? parseInt(syncState.lastBlockNumber) : contract.startBlock - 1;
+      this.contractCheckpoints.set(contract.name, checkpoint);
+
+      if (checkpoint < this.currentBlockNumber - 1) {
+        console.log(`Contract ${contract.name} is behind the scanner (block ${checkpoint}), it will be back-filled`);
+      }
+    }
+  }
+
+  /**
+   * Contracts indexed together with the main scan. Contracts whose checkpoint is
+   * behind the main scanner are indexed by backfillContracts instead.
+   */
+  private getLiveContracts(): RegisteredContract[] {
+    return this.contracts.filter(contract =>
+      this.contractCheckpoints.get(contract.name)! >= this.currentBlockNumber - 1
+    );
   }
 
   private async scanLoop(): Promise<void> {
     while (this.isRunning) {
       try {
-        const latestBlock = await this.getLatestBlockWithRetry();
+        const headBlock = await this.provider.getBlockNumber();
+        // Only blocks with enough confirmations are indexed
+        const latestBlock = headBlock - this.confirmations;
+
+        // Catch up contracts added to the registry without re-scanning the others
+        await this.backfillContracts();
+        const liveContracts = this.getLiveContracts();
         
         if (this.currentBlockNumber <= latestBlock) {
           // Check if we're scanning live blocks or historical blocks
@@ -86,31 +168,47 @@ export class BlockScanner {
           if (isLiveScanning) {
             // For live scanning, process one block at a time
             console.log(`Live scanning: processing block ${this.currentBlockNumber} (${latestBlock - this.currentBlockNumber + 1} blocks behind latest)`);
-            await this.scanBlock(this.currentBlockNumber);
+            const forkBlock = await this.scanBlock(this.currentBlockNumber, liveContracts);
+            if (forkBlock !== null) {
+              // Chain was reorganized - resume from the block after the fork point
+              this.currentBlockNumber = forkBlock + 1;
+              continue;
+            }
             this.currentBlockNumber++;
             
             // Update sync state after each block for live scanning
-            await this.updateSyncState(this.currentBlockNumber - 1);
+            await this.updateSyncState(this.currentBlockNumber - 1, liveContracts);
+            await this.refreshPendingEvents(headBlock, liveContracts);
             
             // Small delay for live scanning to avoid overwhelming the RPC
             await this.sleep(1000); // 1 second delay
           } else {
-            // For historical scanning, use parallel batch processing
+            // For historical scanning, fetch several log ranges in parallel
             const blocksToProcess = Math.min(
-              this.batchSize,
+              this.logFetcher.getRangeSize() * this.maxConcurrentBatches,
               latestBlock - this.currentBlockNumber + 1
             );
             
             if (blocksToProcess > 0) {
+              // Make sure the chain we are about to extend is still canonical
+              const firstBlock = await this.getBlock(this.currentBlockNumber);
+              const forkBlock = firstBlock ? await this.detectReorg(firstBlock) : null;
+              if (forkBlock !== null) {
+                this.currentBlockNumber = forkBlock + 1;
+                continue;
+              }
+
               console.log(`Historical scanning: processing blocks ${this.currentBlockNumber} to ${this.currentBlockNumber + blocksToProcess - 1} in parallel`);
-              await this.scanBlocksInParallel(this.currentBlockNumber, blocksToProcess);
+              await this.scanBlocksInParallel(this.currentBlockNumber, blocksToProcess, liveContracts);
               this.currentBlockNumber += blocksToProcess;
               
               // Update sync state every batch
-              await this.updateSyncState(this.currentBlockNumber - 1);
+              await this.updateSyncState(this.currentBlockNumber - 1, liveContracts);
             }
           }
         } else {
+          await this.refreshPendingEvents(headBlock, liveContracts);
+
           // Wait for new blocks
           await this.sleep(5000); // 5 seconds
         }
@@ -121,189 +219,194 @@ export class BlockScanner {
     }
   }
 
-  private async getLatestBlockWithRetry(): Promise<number> {
-    let lastError: Error | null = null;
-    
-    for (let attempt = 0; attempt < 3; attempt++) {
-      try {
-        return await this.provider.getBlockNumber();
-      } catch (error: any) {
-        lastError = error;
-        console.warn(`Failed to get latest block (attempt ${attempt + 1}):`, error.message);
-        
-        if (attempt < 2) {
-          await this.sleep(5000); // Wait 5 seconds before retry
-        }
-      }
-    }
-    
-    throw new Error(`Failed to get latest block after 3 attempts. Last error: ${lastError?.message}`);
-  }
-
-  private async scanBlocksInParallel(startBlock: number, count: number): Promise<void> {
+  /**
+   * Scan a block range in batches of one log range each. Batches are fetched in
+   * parallel but applied strictly in block order, so the normalized state is the
+   * same as with a serial scan.
+   */
+  private async scanBlocksInParallel(startBlock: number, count: number, contracts: RegisteredContract[]): Promise<void> {
     console.log(`Scanning blocks ${startBlock} to ${startBlock + count - 1} in parallel`);
     
-    // Create batches for parallel processing
-    const batches: number[][] = [];
-    for (let i = 0; i < count; i += this.batchSize) {
-      const batch: number[] = [];
-      for (let j = 0; j < this.batchSize && i + j < count; j++) {
-        batch.push(startBlock + i + j);
-      }
-      batches.push(batch);
-    }
-    
-    // Process batches with controlled concurrency
-    const activeBatches: Promise<void>[] = [];
-    
-    for (let i = 0; i < batches.length; i++) {
-      const batch = batches[i];
-      
-      // Wait if we've reached max concurrent batches
-      if (activeBatches.length >= this.maxConcurrentBatches) {
-        await Promise.race(activeBatches);
-        // Remove completed batches
-        for (let j = activeBatches.length - 1; j >= 0; j--) {
-          if (await Promise.race([activeBatches[j], Promise.resolve()]) === undefined) {
-            activeBatches.splice(j, 1);
-          }
-        }
-      }
-      
-      // Add small delay between batch starts to prevent overwhelming RPC
-      if (i > 0) {
-        await this.sleep(this.batchDelay);
-      }
-      
-      // Start processing this batch
-      const batchPromise = this.processBatch(batch).finally(() => {
-        // Remove this batch from active batches when it completes
-        const index = activeBatches.indexOf(batchPromise);
-        if (index > -1) {
-          activeBatches.splice(index, 1);
-        }
+    // Create batches of one log range each for parallel fetching
+    const rangeSize = this.logFetcher.getRangeSize();
+    const batches: { fromBlock: number, toBlock: number }[] = [];
+    for (let i = 0; i < count; i += rangeSize) {
+      batches.push({
+        fromBlock: startBlock + i,
+        toBlock: startBlock + Math.min(i + rangeSize, count) - 1,
       });
-      
-      activeBatches.push(batchPromise);
     }
-    
-    // Wait for all remaining batches to complete
-    await Promise.all(activeBatches);
+
+    // Headers fetched by the batches, reused to locate snapshot boundaries
+    const headers = new Map<number, any>();
+
+    await this.batchPipeline.run(
+      batches.map(batch => () => this.fetchBatch(batch.fromBlock, batch.toBlock, contracts, headers)),
+      fetchedBatch => this.applyBatch(fetchedBatch, contracts, headers)
+    );
+
     console.log(`Completed scanning blocks ${startBlock} to ${startBlock + count - 1}`);
   }
 
-
-  private async processBatch(blockNumbers: number[]): Promise<void> {
+  /**
+   * Fetch the logs of a block range and the headers of the blocks that have logs for
+   * our contracts. Nothing is written to the event tables here.
+   */
+  private async fetchBatch(fromBlock: number, toBlock: number, contracts: RegisteredContract[], headers: Map<number, any>): Promise<FetchedBatch> {
     try {
-      // Fetch all blocks and logs in parallel
-      const [blocks, allLogs] = await Promise.all([
-        this.getBlocksInParallel(blockNumbers),
-        this.getLogsInParallel(blockNumbers)
-      ]);
-      
-      // Check for snapshot creation once per batch (using the latest block in the batch)
-      // This prevents duplicate snapshots when processing blocks in parallel
-      const latestBlock = blocks[blocks.length - 1];
-      if (latestBlock) {
-        await this.snapshotService.checkAndCreateSnapshot(
-          blockNumbers[blockNumbers.length - 1], 
-          latestBlock.timestamp
-        );
+      const logs = contracts.length > 0
+        ? await this.logFetcher.getLogs(this.getLogFilter(contracts), fromBlock, toBlock)
+        : [];
+      const logsByBlock = this.groupLogsByBlock(logs);
+      const blockNumbers = Array.from(logsByBlock.keys()).sort((a, b) => a - b);
+      const blocks = await this.getBlocksInParallel(blockNumbers);
+
+      // Abort the batch if the chain moved while it was being fetched - the next
+      // iteration of the scan loop will detect the reorg and roll back
+      this.reorgHandler.assertContiguous(blocks);
+      if (blocks[0] && !(await this.reorgHandler.isConsistentWithStoredChain(blocks[0]))) {
+        throw new Error(`Block ${blockNumbers[0]} does not link to the indexed chain`);
       }
-      
-      // Process each block with its corresponding logs
-      const blockPromises = blockNumbers.map(async (blockNumber, index) => {
-        const block = blocks[index];
-        const logs = allLogs[index] || [];
-        
+
+      const fetchedBlocks: { block: any, logs: any[] }[] = [];
+      blocks.forEach((block, index) => {
+        const blockLogs = logsByBlock.get(blockNumbers[index])!;
+
         if (!block) {
-          console.warn(`Block ${blockNumber} not found`);
+          console.warn(`Block ${blockNumbers[index]} not found`);
           return;
         }
-        
-        return this.processBlockData(block, logs, blockNumber);
+        if (blockLogs.some((log: any) => log.blockHash !== block.hash)) {
+          throw new Error(`Logs of block ${block.number} do not belong to block ${block.hash}`);
+        }
+
+        headers.set(block.number, block);
+        fetchedBlocks.push({ block, logs: blockLogs });
       });
-      
-      await Promise.all(blockPromises);
+
+      return { fromBlock, toBlock, blocks: fetchedBlocks };
     } catch (error) {
-      console.error(`Error processing batch ${blockNumbers[0]}-${blockNumbers[blockNumbers.length - 1]}:`, error);
+      console.error(`Error fetching batch ${fromBlock}-${toBlock}:`, error);
       throw error;
     }
   }
 
-  private async getBlocksInParallel(blockNumbers: number[]): Promise<any[]> {
-    const blockPromises = blockNumbers.map(blockNumber => 
-      this.getBlockWithRetry(blockNumber)
-    );
-    return Promise.all(blockPromises);
-  }
+  /**
+   * Apply a fetched batch block by block. A snapshot due within the batch is created
+   * at the end of the first block past the snapshot time, as in live scanning - a block
+   * without logs is only fetched as header, so its snapshot comes before the next block
+   * with logs.
+   */
+  private async applyBatch(batch: FetchedBatch, contracts: RegisteredContract[], headers: Map<number, any>): Promise<void> {
+    try {
+      await this.reorgHandler.recordBlocks(batch.blocks.map(({ block }) => block));
 
-  private async getLogsInParallel(blockNumbers: number[]): Promise<any[][]> {
-    // Try to get logs for multiple blocks in a single request first
-    if (blockNumbers.length > 1) {
-      try {
-        const logs = await this.getLogsForBlockRange(blockNumbers[0], blockNumbers[blockNumbers.length - 1]);
-        // Group logs by block number
-        const logsByBlock: { [key: number]: any[] } = {};
-        logs.forEach(log => {
-          const blockNum = log.blockNumber;
-          if (!logsByBlock[blockNum]) {
-            logsByBlock[blockNum] = [];
-          }
-          logsByBlock[blockNum].push(log);
-        });
-        
-        // Return logs in the same order as blockNumbers
-        return blockNumbers.map(blockNum => logsByBlock[blockNum] || []);
-      } catch (error) {
-        console.warn('Failed to get logs for block range, falling back to individual requests:', error);
+      let snapshotBlock = await this.findNextSnapshotBlock(batch.fromBlock, batch.toBlock, headers);
+      const createSnapshotsUpTo = async (lastBlock: number) => {
+        while (snapshotBlock !== null && snapshotBlock <= lastBlock) {
+          await this.snapshotService.checkAndCreateSnapshot(snapshotBlock, headers.get(snapshotBlock).timestamp);
+          snapshotBlock = await this.findNextSnapshotBlock(snapshotBlock + 1, batch.toBlock, headers);
+        }
+      };
+
+      for (const { block, logs } of batch.blocks) {
+        await createSnapshotsUpTo(block.number - 1);
+        await this.processBlockData(block, logs, block.number, contracts);
+        await createSnapshotsUpTo(block.number);
       }
+
+      await createSnapshotsUpTo(batch.toBlock);
+    } catch (error) {
+      console.error(`Error applying batch ${batch.fromBlock}-${batch.toBlock}:`, error);
+      throw error;
     }
-    
-    // Fallback to individual requests
-    const logPromises = blockNumbers.map(blockNumber => 
-      this.getLogsWithRetry(blockNumber)
-    );
-    return Promise.all(logPromises);
   }
 
-  private async getLogsForBlockRange(fromBlock: number, toBlock: number): Promise<any[]> {
-    let lastError: Error | null = null;
-    
-    for (let attempt = 0; attempt < 3; attempt++) {
-      try {
-        return await this.provider.getLogs({
-          fromBlock,
-          toBlock,
-        });
-      } catch (error: any) {
-        lastError = error;
-        console.warn(`Failed to get logs for blocks ${fromBlock}-${toBlock} (attempt ${attempt + 1}):`, error.message);
-        
-        if (attempt < 2) {
-          await this.sleep(2000); // Wait 2 seconds before retry
+  /**
+   * Find the first block of a range at or past the next snapshot time. It is located
+   * by binary search over block timestamps, so only a few headers are fetched per
+   * snapshot boundary instead of one per block.
+   */
+  private async findNextSnapshotBlock(fromBlock: number, toBlock: number, headers: Map<number, any>): Promise<number | null> {
+    if (fromBlock > toBlock) {
+      return null;
+    }
+
+    const getHeader = async (blockNumber: number): Promise<any> => {
+      let header = headers.get(blockNumber);
+      if (!header) {
+        header = await this.getBlock(blockNumber);
+        if (!header) {
+          throw new Error(`Block ${blockNumber} not found`);
         }
+        headers.set(blockNumber, header);
       }
+      return header;
+    };
+
+    const nextSnapshotTime = await this.snapshotService.ensureNextSnapshotTime((await getHeader(fromBlock)).timestamp);
+    if ((await getHeader(toBlock)).timestamp < nextSnapshotTime) {
+      return null;
     }
-    
-    throw new Error(`Failed to get logs for blocks ${fromBlock}-${toBlock} after 3 attempts. Last error: ${lastError?.message}`);
+
+    let low = fromBlock;
+    let high = toBlock;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if ((await getHeader(mid)).timestamp >= nextSnapshotTime) {
+        high = mid;
+      } else {
+        low = mid + 1;
+      }
+    }
+
+    return low;
   }
 
-  private async processBlockData(block: any, logs: any[], blockNumber: number): Promise<void> {
-    // Filter logs for our contracts
-    const nodeManagerAddress = this.nodeManagerContract.target?.toString().toLowerCase();
-    const stfuelAddress = this.stfuelContract.target?.toString().toLowerCase();
-    
-    const nodeManagerLogs = logs.filter((log: any) => 
-      log.address.toLowerCase() === nodeManagerAddress
-    );
+  private async getBlocksInParallel(blockNumbers: number[]): Promise<any[]> {
+    const blocks: any[] = [];
 
-    const stfuelLogs = logs.filter((log: any) => 
-      log.address.toLowerCase() === stfuelAddress
-    );
+    // Request headers in waves of batchSize calls - each wave goes out as JSON-RPC
+    // batch requests, split by the provider pool to what the endpoint accepts
+    for (let i = 0; i < blockNumbers.length; i += this.batchSize) {
+      const blockPromises = blockNumbers.slice(i, i + this.batchSize).map(blockNumber => 
+        this.getBlock(blockNumber)
+      );
+      blocks.push(...(await Promise.all(blockPromises)));
+    }
+
+    return blocks;
+  }
+
+  // Address and topic filter for the logs of the given contracts
+  private getLogFilter(contracts: RegisteredContract[]): LogFilter {
+    const topics = new Set<string>();
+    for (const contract of contracts) {
+      this.eventTopics.get(contract.name)!.forEach(topic => topics.add(topic));
+    }
+
+    return {
+      address: contracts.map(contract => contract.address),
+      topics: [Array.from(topics)],
+    };
+  }
+
+  private groupLogsByBlock(logs: any[]): Map<number, any[]> {
+    const logsByBlock = new Map<number, any[]>();
+    for (const log of logs) {
+      const blockLogs = logsByBlock.get(log.blockNumber) || [];
+      blockLogs.push(log);
+      logsByBlock.set(log.blockNumber, blockLogs);
+    }
+    return logsByBlock;
+  }
+
+  private async processBlockData(block: any, logs: any[], blockNumber: number, contracts: RegisteredContract[]): Promise<void> {
+    // Filter logs for our contracts
+    const contractLogs = this.groupLogsByContract(logs, blockNumber, contracts);
 
     // Skip event processing if no relevant events found
-    if (nodeManagerLogs.length === 0 && stfuelLogs.length === 0) {
+    if (contractLogs.length === 0) {
       return;
     }
 
@@ -314,20 +417,19 @@ export class BlockScanner {
 
     try {
       // Parse and save events to database
-      let nodeManagerResult: { events: any[], wasNew: boolean } = { events: [], wasNew: false };
-      let stfuelResult: { events: any[], wasNew: boolean } = { events: [], wasNew: false };
+      const results: { contract: RegisteredContract, events: any[] }[] = [];
 
-      if (nodeManagerLogs.length > 0) {
-        nodeManagerResult = await this.eventProcessor.processNodeManagerEvents(nodeManagerLogs, block.timestamp, queryRunner);
+      for (const { contract, logs: logsOfContract } of contractLogs) {
+        const { newEvents } = await this.eventProcessor.processContractEvents(contract, logsOfContract, block.timestamp, queryRunner);
+        results.push({ contract, events: newEvents });
       }
 
-      if (stfuelLogs.length > 0) {
-        stfuelResult = await this.eventProcessor.processStfuelEvents(stfuelLogs, block.timestamp, queryRunner);
-      }
-
-      // Only process normalized events if we have new events (not duplicates)
-      if (nodeManagerResult.wasNew || stfuelResult.wasNew) {
-        await this.processNormalizedEvents(nodeManagerResult.events, stfuelResult.events, blockNumber, queryRunner);
+      // Only events that were actually inserted feed the normalized tables - events
+      // already stored were applied when they were first indexed
+      if (results.some(result => result.events.length > 0)) {
+        await this.processNormalizedEvents(results, blockNumber, queryRunner);
+      } else {
+        console.log(`Block ${blockNumber} already processed, skipping normalized event processing`);
       }
 
       // Commit the transaction
@@ -342,172 +444,236 @@ export class BlockScanner {
     }
   }
 
-  private async scanBlock(blockNumber: number): Promise<void> {
+  /**
+   * Split a block's logs by registered contract. A contract only receives logs of
+   * blocks after its checkpoint, which also skips blocks before its start block.
+   */
+  private groupLogsByContract(logs: any[], blockNumber: number, contracts: RegisteredContract[]): { contract: RegisteredContract, logs: any[] }[] {
+    const contractLogs: { contract: RegisteredContract, logs: any[] }[] = [];
+
+    for (const contract of contracts) {
+      if (blockNumber <= this.contractCheckpoints.get(contract.name)!) {
+        continue;
+      }
+
+      const logsOfContract = logs.filter((log: any) =>
+        log.address.toLowerCase() === contract.address
+      );
+
+      if (logsOfContract.length > 0) {
+        contractLogs.push({ contract, logs: logsOfContract });
+      }
+    }
+
+    return contractLogs;
+  }
+
+  /**
+   * Scan a single block. Returns the fork point if a chain reorganization was
+   * detected and rolled back, otherwise null.
+   */
+  private async scanBlock(blockNumber: number, contracts: RegisteredContract[]): Promise<number | null> {
     try {
       console.log(`Scanning block ${blockNumber}`);
       
-      const block = await this.getBlockWithRetry(blockNumber);
+      // Header and logs are requested together in one JSON-RPC batch
+      const [block, logs] = await Promise.all([
+        this.getBlock(blockNumber),
+        this.getLogs(blockNumber, contracts),
+      ]);
       if (!block) {
         console.warn(`Block ${blockNumber} not found`);
-        return;
+        return null;
       }
 
-      // Get logs for the block
-      const logs = await this.getLogsWithRetry(blockNumber);
+      const forkBlock = await this.detectReorg(block);
+      if (forkBlock !== null) {
+        return forkBlock;
+      }
 
-      // Filter logs for our contracts
-      const nodeManagerAddress = this.nodeManagerContract.target?.toString().toLowerCase();
-      const stfuelAddress = this.stfuelContract.target?.toString().toLowerCase();
+      // The block was replaced between the two calls - fail so it is scanned again
+      if (logs.some((log: any) => log.blockHash !== block.hash)) {
+        throw new Error(`Logs of block ${blockNumber} do not belong to block ${block.hash}`);
+      }
+      await this.reorgHandler.recordBlocks([block]);
       
       if (logs.length > 0) {
         console.log(`Total logs in block: ${logs.length}`);
       }
 
-      const nodeManagerLogs = logs.filter((log: any) => 
-        log.address.toLowerCase() === nodeManagerAddress
-      );
-
-      const stfuelLogs = logs.filter((log: any) => 
-        log.address.toLowerCase() === stfuelAddress
-      );
+      await this.processBlockData(block, logs, blockNumber, contracts);
 
-      // Check if we need to create a snapshot (based on block timestamp) - ALWAYS check, regardless of events
+      // Check if we need to create a snapshot (based on block timestamp) - ALWAYS check, regardless of events.
+      // Taken after the events of the block, so it describes the end of the block
       await this.snapshotService.checkAndCreateSnapshot(blockNumber, block.timestamp);
 
-      // Skip event processing if no relevant events found
-      if (nodeManagerLogs.length === 0 && stfuelLogs.length === 0) {
-        return;
+      return null;
+    } catch (error) {
+      console.error(`Error scanning block ${blockNumber}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Index one block range for every contract whose checkpoint is behind the main
+   * scanner, using logs filtered by the contract address. Once a contract feeding the
+   * normalized tables has caught up, they are rebuilt so its events are applied in
+   * chain order with the events of the other contracts.
+   */
+  private async backfillContracts(): Promise<void> {
+    const headBlock = this.currentBlockNumber - 1;
+
+    for (const contract of this.contracts) {
+      const checkpoint = this.contractCheckpoints.get(contract.name)!;
+      if (checkpoint >= headBlock) {
+        continue;
       }
 
-      // Process events within a database transaction
-      const queryRunner = AppDataSource.createQueryRunner();
-      await queryRunner.connect();
-      await queryRunner.startTransaction();
+      const fromBlock = checkpoint + 1;
+      const toBlock = Math.min(fromBlock + this.backfillLogFetcher.getRangeSize() * this.maxConcurrentBatches - 1, headBlock);
+      console.log(`Back-filling ${contract.name}: blocks ${fromBlock} to ${toBlock}`);
 
-      try {
-        // Parse and save events to database
-        let nodeManagerResult: { events: any[], wasNew: boolean } = { events: [], wasNew: false };
-        let stfuelResult: { events: any[], wasNew: boolean } = { events: [], wasNew: false };
+      const logs = await this.backfillLogFetcher.getLogs(this.getLogFilter([contract]), fromBlock, toBlock);
+      const logsByBlock = this.groupLogsByBlock(logs);
+      const blockNumbers = Array.from(logsByBlock.keys()).sort((a, b) => a - b);
+      const blocks = await this.getBlocksInParallel(blockNumbers);
 
-        if (nodeManagerLogs.length > 0) {
-          nodeManagerResult = await this.eventProcessor.processNodeManagerEvents(nodeManagerLogs, block.timestamp, queryRunner);
-          console.log(`Processed ${nodeManagerLogs.length} NodeManager events`);
+      for (let i = 0; i < blockNumbers.length; i++) {
+        if (!blocks[i]) {
+          throw new Error(`Block ${blockNumbers[i]} not found while back-filling ${contract.name}`);
         }
+        await this.processBlockData(blocks[i], logsByBlock.get(blockNumbers[i])!, blockNumbers[i], [contract]);
+      }
 
-        if (stfuelLogs.length > 0) {
-          stfuelResult = await this.eventProcessor.processStfuelEvents(stfuelLogs, block.timestamp, queryRunner);
-          console.log(`Processed ${stfuelLogs.length} sTFuel events`);
-        }
+      await this.updateSyncState(toBlock, [contract], false);
 
-        // Only process normalized events if we have new events (not duplicates)
-        if (nodeManagerResult.wasNew || stfuelResult.wasNew) {
-          await this.processNormalizedEvents(nodeManagerResult.events, stfuelResult.events, blockNumber, queryRunner);
-          console.log(`Processed normalized events for block ${blockNumber}`);
-        } else {
-          console.log(`Block ${blockNumber} already processed, skipping normalized event processing`);
+      if (toBlock === headBlock) {
+        console.log(`Contract ${contract.name} caught up with the scanner at block ${headBlock}`);
+        if (contract.handler !== 'generic') {
+          await this.replayNormalizedState();
         }
-
-        // Commit the transaction
-        await queryRunner.commitTransaction();
-      } catch (error) {
-        // Rollback the transaction on error
-        await queryRunner.rollbackTransaction();
-        throw error;
-      } finally {
-        // Release the query runner
-        await queryRunner.release();
       }
+    }
+  }
 
+  private async replayNormalizedState(): Promise<void> {
+    const queryRunner = AppDataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      await this.normalizedReplayService.rebuild(queryRunner);
+      await queryRunner.commitTransaction();
     } catch (error) {
-      console.error(`Error scanning block ${blockNumber}:`, error);
+      await queryRunner.rollbackTransaction();
       throw error;
+    } finally {
+      await queryRunner.release();
     }
   }
 
-  private async getBlockWithRetry(blockNumber: number): Promise<any> {
-    let lastError: Error | null = null;
-    
-    for (let attempt = 0; attempt < 3; attempt++) {
-      try {
-        return await this.provider.getBlock(blockNumber, true);
-      } catch (error: any) {
-        lastError = error;
-        console.warn(`Failed to get block ${blockNumber} (attempt ${attempt + 1}):`, error.message);
-        
-        if (attempt < 2) {
-          await this.sleep(2000); // Wait 2 seconds before retry
-        }
-      }
+  /**
+   * Compare a freshly fetched block against the stored parent hash. On a mismatch,
+   * roll the indexed state back to the fork point and return it.
+   */
+  private async detectReorg(block: any): Promise<number | null> {
+    if (await this.reorgHandler.isConsistentWithStoredChain(block)) {
+      return null;
     }
-    
-    throw new Error(`Failed to get block ${blockNumber} after 3 attempts. Last error: ${lastError?.message}`);
+
+    const forkBlock = await this.reorgHandler.findForkPoint(block.number - 1);
+    await this.reorgHandler.rollbackTo(forkBlock);
+    this.snapshotService.resetSnapshotSchedule();
+    await this.loadContractCheckpoints();
+
+    return forkBlock;
   }
 
-  private async getLogsWithRetry(blockNumber: number): Promise<any[]> {
-    let lastError: Error | null = null;
-    
-    for (let attempt = 0; attempt < 3; attempt++) {
-      try {
-        return await this.provider.getLogs({
-          fromBlock: blockNumber,
-          toBlock: blockNumber,
-        });
-      } catch (error: any) {
-        lastError = error;
-        console.warn(`Failed to get logs for block ${blockNumber} (attempt ${attempt + 1}):`, error.message);
-        
-        if (attempt < 2) {
-          await this.sleep(2000); // Wait 2 seconds before retry
-        }
-      }
+  private async getBlock(blockNumber: number): Promise<any> {
+    // Headers only - transactions are never used
+    return this.provider.getBlock(blockNumber);
+  }
+
+  private async getLogs(blockNumber: number, contracts: RegisteredContract[]): Promise<any[]> {
+    if (contracts.length === 0) {
+      return [];
     }
-    
-    throw new Error(`Failed to get logs for block ${blockNumber} after 3 attempts. Last error: ${lastError?.message}`);
+
+    return this.provider.getLogs({
+      ...this.getLogFilter(contracts),
+      fromBlock: blockNumber,
+      toBlock: blockNumber,
+    });
   }
 
-  private async updateSyncState(blockNumber: number): Promise<void> {
+  /**
+   * Advance the checkpoints of the given contracts and, unless back-filling, the
+   * main scanner checkpoint.
+   */
+  private async updateSyncState(blockNumber: number, contracts: RegisteredContract[], updateMain: boolean = true): Promise<void> {
     try {
-      await this.syncStateRepo.upsert(
-        {
+      const states = contracts
+        // A contract with a later start block keeps its checkpoint until the scanner reaches it
+        .filter(contract => this.contractCheckpoints.get(contract.name)! < blockNumber)
+        .map(contract => ({
+          key: getSyncStateKey(contract),
+          lastBlockNumber: blockNumber.toString(),
+        }));
+
+      if (updateMain) {
+        states.push({
           key: 'main',
           lastBlockNumber: blockNumber.toString(),
-        },
-        ['key']
-      );
+        });
+      }
+
+      if (states.length > 0) {
+        await this.syncStateRepo.upsert(states, ['key']);
+      }
+
+      if (updateMain) {
+        await this.normalizedEventProcessor.markUnlockableRedemptions(blockNumber);
+      }
+
+      for (const contract of contracts) {
+        if (this.contractCheckpoints.get(contract.name)! < blockNumber) {
+          this.contractCheckpoints.set(contract.name, blockNumber);
+        }
+      }
       console.log(`Updated sync state to block ${blockNumber}`);
     } catch (error) {
       console.error('Error updating sync state:', error);
     }
   }
 
-  private async processNormalizedEvents(nodeManagerEvents: any[], stfuelEvents: any[], blockNumber: number, queryRunner?: QueryRunner): Promise<void> {
+  /**
+   * Track the events of the blocks still waiting for confirmations, so the API can
+   * show them flagged as unconfirmed. Without a confirmation depth there are none.
+   */
+  private async refreshPendingEvents(headBlock: number, contracts: RegisteredContract[]): Promise<void> {
+    if (this.confirmations === 0) {
+      return;
+    }
+
     try {
-      // Process NodeManager events directly from parsed events
-      for (const event of nodeManagerEvents) {
-        try {
-          await this.normalizedEventProcessor.processNodeManagerEvent(event, queryRunner);
-        } catch (error) {
-          console.error(`Error processing normalized NodeManager event:`, error);
-          // Continue processing other events
-        }
-      }
+      await this.pendingEventTracker.refresh(this.getLogFilter(contracts), this.currentBlockNumber, headBlock, contracts);
+    } catch (error) {
+      // Pending events are best effort - the confirmed scan must not stall on them
+      console.error('Error refreshing pending events:', error);
+    }
+  }
 
-      // Process sTFuel events directly from parsed events
-      for (const event of stfuelEvents) {
-        try {
-          await this.normalizedEventProcessor.processStfuelEvent(event, queryRunner);
-        } catch (error) {
-          console.error(`Error processing normalized sTFuel event:`, error);
-          // Continue processing other events
-        }
-      }
+  private async processNormalizedEvents(results: { contract: RegisteredContract, events: any[] }[], blockNumber: number, queryRunner?: QueryRunner): Promise<void> {
+    // Process events directly from parsed events, across contracts in logIndex order.
+    // Events failing their handler are moved to dead_letter_events without stopping the scan.
+    const events = results
+      .filter(({ contract }) => contract.handler !== 'generic')
+      .flatMap(({ contract, events }) => events.map(event => ({ handler: contract.handler, event })));
 
-      if (nodeManagerEvents.length > 0 || stfuelEvents.length > 0) {
-        console.log(`Processed ${nodeManagerEvents.length} normalized NodeManager events and ${stfuelEvents.length} normalized sTFuel events for block ${blockNumber}`);
-      }
-    } catch (error) {
-      console.error(`Error processing normalized events for block ${blockNumber}:`, error);
-      // Don't throw - we want to continue scanning even if normalized processing fails
+    await this.normalizedEventProcessor.processEventsInOrder(events, queryRunner);
+
+    if (events.length > 0) {
+      console.log(`Processed ${events.length} normalized events for block ${blockNumber}`);
     }
   }
 
@@ -532,7 +698,7 @@ export class BlockScanner {
 
   async getScanningMode(): Promise<'live' | 'historical'> {
     try {
-      const latestBlock = await this.getLatestBlockWithRetry();
+      const latestBlock = await this.provider.getBlockNumber() - this.confirmations;
       return this.isLiveScanning(this.currentBlockNumber, latestBlock) ? 'live' : 'historical';
     } catch (error) {
       console.error('Error determining scanning mode:', error);
@@ -0,0 +1,73 @@
+import { ethers } from 'ethers';
+
+export interface DecodedEvent {
+  eventName: string;
+  args: Record<string, any>;
+}
+
+/**
+ * Decodes contract logs generically from an ABI. Argument values are converted to
+ * JSON-safe types: addresses are lowercased, integers wider than 32 bits become
+ * decimal strings and small integers (enums, bps values) become numbers.
+ */
+export class EventDecoder {
+  private iface: ethers.Interface;
+
+  constructor(abi: ethers.InterfaceAbi) {
+    this.iface = new ethers.Interface(abi);
+  }
+
+  decode(log: { topics: ReadonlyArray<string>; data: string }): DecodedEvent | null {
+    let parsed: ethers.LogDescription | null = null;
+
+    try {
+      parsed = this.iface.parseLog({ topics: [...log.topics], data: log.data });
+    } catch (error: any) {
+      console.warn(`Failed to decode log with topic ${log.topics[0]}:`, error.message);
+      return null;
+    }
+
+    if (!parsed) {
+      return null;
+    }
+
+    const args: Record<string, any> = {};
+    parsed.fragment.inputs.forEach((input, index) => {
+      args[input.name] = this.toJsonValue(input, parsed!.args[index]);
+    });
+
+    return { eventName: parsed.name, args };
+  }
+
+  private toJsonValue(param: ethers.ParamType, value: any): any {
+    // Indexed dynamic types (string, bytes, arrays) are only available as their hash
+    if (ethers.Indexed.isIndexed(value)) {
+      return value.hash;
+    }
+
+    if (param.isArray()) {
+      return Array.from(value).map((item: any) => this.toJsonValue(param.arrayChildren, item));
+    }
+
+    if (param.isTuple()) {
+      const result: Record<string, any> = {};
+      param.components.forEach((component, index) => {
+        result[component.name || index.toString()] = this.toJsonValue(component, value[index]);
+      });
+      return result;
+    }
+
+    if (param.baseType === 'address') {
+      return (value as string).toLowerCase();
+    }
+
+    if (param.baseType.startsWith('uint') || param.baseType.startsWith('int')) {
+      const bits = parseInt(param.baseType.replace(/^u?int/, '') || '256');
+      return bits <= 32 ? Number(value) : value.toString();
+    }
+
+    return value;
+  }
+}
+
+export default EventDecoder;
@@ -0,0 +1,47 @@
+/**
+ * Runs fetch tasks with bounded concurrency while applying their results strictly in
+ * task order: the result of task N is only applied after task N - 1 was applied, no
+ * matter which fetch finishes first.
+ */
+export class OrderedBatchPipeline {
+  private concurrency: number;
+  private startDelay: number;
+
+  constructor(concurrency: number, startDelay: number = 0) {
+    this.concurrency = Math.max(concurrency, 1);
+    this.startDelay = startDelay;
+  }
+
+  async run<T>(fetchers: (() => Promise<T>)[], apply: (result: T) => Promise<void>): Promise<void> {
+    const fetches: Promise<T>[] = [];
+
+    for (let i = 0; i < fetchers.length; i++) {
+      // Fetch i starts once fetch i - concurrency has settled
+      const slot = i >= this.concurrency
+        ? fetches[i - this.concurrency].then(() => undefined, () => undefined)
+        : Promise.resolve();
+
+      const fetch = slot.then(async () => {
+        // Stagger request starts to avoid overwhelming the RPC
+        if (i > 0 && this.startDelay > 0) {
+          await this.sleep(i < this.concurrency ? this.startDelay * i : this.startDelay);
+        }
+        return fetchers[i]();
+      });
+
+      // Failures surface in the apply loop - fetches it never reaches must not raise unhandled rejections
+      fetch.catch(() => undefined);
+      fetches.push(fetch);
+    }
+
+    for (const fetch of fetches) {
+      await apply(await fetch);
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+export default OrderedBatchPipeline;
@@ -0,0 +1,86 @@
+import { ethers } from 'ethers';
+import AppDataSource from '../database/data-source';
+import { PendingEvent } from '../database/entities/PendingEvent';
+import { RegisteredContract } from '../contracts/registry';
+import { EventProcessor } from './EventProcessor';
+import { LogFilter } from './AdaptiveLogFetcher';
+
+/**
+ * Keeps pending_events in sync with the blocks between the last indexed block and
+ * the chain head when the scanner waits for confirmations. Pending events are never
+ * normalized; the whole table is replaced on every refresh, so events of blocks that
+ * were reorganized away or got indexed in the meantime disappear.
+ */
+export class PendingEventTracker {
+  private provider: ethers.JsonRpcProvider;
+  private eventProcessor: EventProcessor;
+  // Block range of the last refresh, to skip refreshes while the chain did not move
+  private lastRange: string | null = null;
+
+  constructor(provider: ethers.JsonRpcProvider) {
+    this.provider = provider;
+    this.eventProcessor = new EventProcessor();
+  }
+
+  async refresh(filter: LogFilter, fromBlock: number, headBlock: number, contracts: RegisteredContract[]): Promise<void> {
+    const range = `${fromBlock}-${headBlock}`;
+    if (range === this.lastRange) {
+      return;
+    }
+
+    const logs = fromBlock <= headBlock && contracts.length > 0
+      ? await this.provider.getLogs({ ...filter, fromBlock, toBlock: headBlock })
+      : [];
+
+    const blockNumbers = Array.from(new Set(logs.map(log => log.blockNumber)));
+    const blocks = new Map<number, ethers.Block>();
+    for (const blockNumber of blockNumbers) {
+      const block = await this.provider.getBlock(blockNumber);
+      if (block) {
+        blocks.set(blockNumber, block);
+      }
+    }
+
+    const pendingEvents: Partial<PendingEvent>[] = [];
+    for (const contract of contracts) {
+      for (const blockNumber of blockNumbers) {
+        const block = blocks.get(blockNumber);
+        const blockLogs = logs.filter(log =>
+          log.blockNumber === blockNumber && log.address.toLowerCase() === contract.address
+        );
+        // Skip logs of a block that changed since getLogs - the next refresh picks them up
+        if (!block || blockLogs.length === 0 || blockLogs.some(log => log.blockHash !== block.hash)) {
+          continue;
+        }
+
+        for (const event of this.eventProcessor.parseContractEvents(contract, blockLogs, block.timestamp)) {
+          pendingEvents.push({
+            ...event,
+            contractName: contract.name,
+            handler: contract.handler,
+            blockHash: block.hash!,
+          });
+        }
+      }
+    }
+
+    await AppDataSource.transaction(async (manager) => {
+      await manager.query(`DELETE FROM "pending_events"`);
+      if (pendingEvents.length > 0) {
+        await manager.getRepository(PendingEvent).insert(pendingEvents);
+      }
+    });
+
+    this.lastRange = range;
+    if (pendingEvents.length > 0) {
+      console.log(`Tracking ${pendingEvents.length} pending events in blocks ${fromBlock} to ${headBlock}`);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await AppDataSource.query(`DELETE FROM "pending_events"`);
+    this.lastRange = null;
+  }
+}
+
+export default PendingEventTracker;
@@ -0,0 +1,161 @@
+import { ethers } from 'ethers';
+import { Repository, LessThan } from 'typeorm';
+import AppDataSource from '../database/data-source';
+import { BlockHeader } from '../database/entities/BlockHeader';
+import { SyncState } from '../database/entities/SyncState';
+import { NormalizedReplayService } from '../services/NormalizedReplayService';
+import { SnapshotRollupService } from '../services/SnapshotRollupService';
+import { config } from '../config/environment';
+
+export class ReorgHandler {
+  private provider: ethers.JsonRpcProvider;
+  private blockHeaderRepo: Repository<BlockHeader>;
+  private normalizedReplayService: NormalizedReplayService;
+  private snapshotRollupService: SnapshotRollupService;
+  private confirmationDepth: number;
+
+  constructor(provider: ethers.JsonRpcProvider) {
+    this.provider = provider;
+    this.blockHeaderRepo = AppDataSource.getRepository(BlockHeader);
+    this.normalizedReplayService = new NormalizedReplayService();
+    this.snapshotRollupService = new SnapshotRollupService();
+    this.confirmationDepth = config.reorgConfirmationDepth;
+  }
+
+  /**
+   * Check whether a freshly fetched block builds on the block we stored for its parent.
+   * Returns true when there is nothing stored to compare against.
+   */
+  async isConsistentWithStoredChain(block: any): Promise<boolean> {
+    const parent = await this.blockHeaderRepo.findOne({
+      where: { blockNumber: (block.number - 1).toString() }
+    });
+
+    if (!parent) {
+      return true;
+    }
+
+    return parent.blockHash === block.parentHash;
+  }
+
+  /**
+   * Ensure a batch of blocks fetched from the RPC forms a single chain segment.
+   * A gap in the hash links means the chain moved while the batch was being fetched.
+   */
+  assertContiguous(blocks: any[]): void {
+    for (let i = 1; i < blocks.length; i++) {
+      const previous = blocks[i - 1];
+      const current = blocks[i];
+      if (!previous || !current) continue;
+
+      if (current.number === previous.number + 1 && current.parentHash !== previous.hash) {
+        throw new Error(`Block ${current.number} does not link to block ${previous.number} (parent ${current.parentHash}, expected ${previous.hash})`);
+      }
+    }
+  }
+
+  async recordBlocks(blocks: any[]): Promise<void> {
+    const headers = blocks
+      .filter(block => !!block)
+      .map(block => ({
+        blockNumber: block.number.toString(),
+        blockHash: block.hash,
+        parentHash: block.parentHash,
+        timestamp: block.timestamp,
+      }));
+
+    if (headers.length === 0) {
+      return;
+    }
+
+    await this.blockHeaderRepo.upsert(headers, ['blockNumber']);
+
+    // Only the last confirmationDepth blocks can still be reorganized - drop older hashes
+    // and undo entries
+    const highestBlock = Math.max(...blocks.filter(block => !!block).map(block => block.number));
+    await this.blockHeaderRepo.delete({
+      blockNumber: LessThan((highestBlock - this.confirmationDepth).toString())
+    });
+    await this.normalizedReplayService.pruneUndoLog(highestBlock - this.confirmationDepth);
+  }
+
+  /**
+   * Walk back from fromBlock until the stored hash matches the canonical chain again.
+   * Returns the last block both chains have in common.
+   */
+  async findForkPoint(fromBlock: number): Promise<number> {
+    for (let blockNumber = fromBlock; blockNumber > fromBlock - this.confirmationDepth; blockNumber--) {
+      const stored = await this.blockHeaderRepo.findOne({
+        where: { blockNumber: blockNumber.toString() }
+      });
+
+      if (!stored) {
+        break;
+      }
+
+      const canonical = await this.provider.getBlock(blockNumber);
+      if (canonical && canonical.hash === stored.blockHash) {
+        return blockNumber;
+      }
+    }
+
+    throw new Error(`Chain reorganization below block ${fromBlock} is deeper than the confirmation depth of ${this.confirmationDepth} blocks`);
+  }
+
+  /**
+   * Remove everything indexed after forkBlock and undo the normalized row changes of
+   * the removed blocks, so the scanner can re-scan the canonical chain.
+   */
+  async rollbackTo(forkBlock: number): Promise<void> {
+    console.warn(`Chain reorganization detected, rolling back to block ${forkBlock}`);
+
+    const queryRunner = AppDataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      const fork = forkBlock.toString();
+
+      await queryRunner.query(`DELETE FROM "node_manager_events" WHERE "blockNumber" > $1`, [fork]);
+      await queryRunner.query(`DELETE FROM "stfuel_events" WHERE "blockNumber" > $1`, [fork]);
+      await queryRunner.query(`DELETE FROM "contract_events" WHERE "blockNumber" > $1`, [fork]);
+      const [removedSnapshots] = await queryRunner.query(
+        `SELECT MIN("snapshotTimestamp") AS "fromTimestamp", MAX("snapshotTimestamp") AS "toTimestamp" FROM "hourly_snapshots" WHERE "blockNumber" > $1`,
+        [fork]
+      );
+      await queryRunner.query(`DELETE FROM "hourly_snapshots" WHERE "blockNumber" > $1`, [fork]);
+      if (removedSnapshots.fromTimestamp !== null) {
+        await this.snapshotRollupService.refresh(removedSnapshots.fromTimestamp, removedSnapshots.toTimestamp, queryRunner);
+      }
+      await queryRunner.query(`DELETE FROM "block_headers" WHERE "blockNumber" > $1`, [fork]);
+      // Events of the removed blocks that failed are recorded again if they fail on the new chain
+      await queryRunner.query(`DELETE FROM "dead_letter_events" WHERE "blockNumber" > $1`, [fork]);
+
+      await queryRunner.manager.getRepository(SyncState).upsert(
+        {
+          key: 'main',
+          lastBlockNumber: fork,
+        },
+        ['key']
+      );
+
+      await this.normalizedReplayService.rollbackTo(queryRunner, forkBlock);
+
+      // Only move contract checkpoints back - contracts being back-filled may still be behind the fork point
+      await queryRunner.query(
+        `UPDATE "sync_state" SET "lastBlockNumber" = $1 WHERE "key" LIKE 'contract:%' AND "lastBlockNumber" > $1`,
+        [fork]
+      );
+
+      await queryRunner.commitTransaction();
+      console.log(`Rolled back indexed state to block ${forkBlock}`);
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+}
+
+export default ReorgHandler;
@@ -0,0 +1,46 @@
+import { AbiVersion } from '../contracts/abiVersions';
+import { EventDecoder, DecodedEvent } from './EventDecoder';
+
+export interface VersionedDecodedEvent extends DecodedEvent {
+  abiVersion: number;
+}
+
+/**
+ * Decodes logs of a contract that changed its event shapes across deployments.
+ * The ABI version whose block range covers the log is tried first; a topic unknown
+ * to that version falls back to the other versions, newest first. Decoded args are
+ * always returned in the canonical (latest) shape.
+ */
+export class VersionedEventDecoder {
+  private versions: { version: AbiVersion; decoder: EventDecoder }[];
+
+  constructor(versions: AbiVersion[]) {
+    this.versions = [...versions]
+      .sort((a, b) => b.fromBlock - a.fromBlock || b.version - a.version)
+      .map(version => ({ version, decoder: new EventDecoder(version.abi) }));
+  }
+
+  decode(log: { topics: ReadonlyArray<string>; data: string; blockNumber: number | string }): VersionedDecodedEvent | null {
+    const blockNumber = Number(log.blockNumber);
+    const active = this.versions.find(({ version }) => blockNumber >= version.fromBlock);
+    const candidates = active
+      ? [active, ...this.versions.filter(candidate => candidate !== active)]
+      : this.versions;
+
+    for (const { version, decoder } of candidates) {
+      const decoded = decoder.decode(log);
+      if (!decoded) continue;
+
+      const canonicalize = version.canonicalArgs?.[decoded.eventName];
+      return {
+        eventName: decoded.eventName,
+        args: canonicalize ? canonicalize(decoded.args) : decoded.args,
+        abiVersion: version.version,
+      };
+    }
+
+    return null;
+  }
+}
+
+export default VersionedEventDecoder;
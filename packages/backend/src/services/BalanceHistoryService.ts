@@ -0,0 +1,115 @@
+import AppDataSource from '../database/data-source';
+import { SnapshotResolution } from '../database/entities/SnapshotRollup';
+import { SNAPSHOT_RATE } from './SnapshotRollupService';
+
+export interface BalanceAt {
+  address: string;
+  balance: string;
+  // Transfer that set the balance, null before the first one
+  lastChangeBlockNumber: string | null;
+  lastChangeTimestamp: number | null;
+  // Latest snapshot at or before the requested point and its exchange rate (1e18-scaled)
+  snapshotBlockNumber: string | null;
+  snapshotTimestamp: number | null;
+  exchangeRate: string | null;
+  tfuelValue: string | null;
+}
+
+export interface BalanceHistoryPoint {
+  periodStart: number;
+  periodEnd: number;
+  // Balance as of the last snapshot of the period
+  balance: string;
+  exchangeRate: string | null;
+  tfuelValue: string | null;
+}
+
+/**
+ * sTFuel balances of an address over time from balance_changes, valued in TFuel with
+ * the exchange rate of the snapshots. A point in time resolves to the end of the last
+ * block at or before it, the point every snapshot describes.
+ */
+export class BalanceHistoryService {
+  async getBalanceAt(address: string, point: { blockNumber?: string; timestamp?: number }): Promise<BalanceAt> {
+    const column = point.blockNumber !== undefined ? 'blockNumber' : 'timestamp';
+    const snapshotColumn = point.blockNumber !== undefined ? 'blockNumber' : 'snapshotTimestamp';
+    // Neither given - the current balance and latest snapshot
+    const value = point.blockNumber ?? point.timestamp ?? null;
+
+    const [[change], [snapshot]] = await Promise.all([
+      AppDataSource.query(
+        `
+        SELECT "balance", "blockNumber", "timestamp"
+        FROM "balance_changes"
+        WHERE "address" = $1 AND ($2::bigint IS NULL OR "${column}" <= $2::bigint)
+        ORDER BY "blockNumber" DESC, "logIndex" DESC
+        LIMIT 1
+        `,
+        [address.toLowerCase(), value]
+      ),
+      AppDataSource.query(
+        `
+        SELECT "blockNumber", "snapshotTimestamp", ${SNAPSHOT_RATE} AS "rate"
+        FROM "hourly_snapshots"
+        WHERE $1::bigint IS NULL OR "${snapshotColumn}" <= $1::bigint
+        ORDER BY "snapshotTimestamp" DESC, "blockNumber" DESC
+        LIMIT 1
+        `,
+        [value]
+      ),
+    ]);
+
+    const balance = change?.balance ?? '0';
+    const exchangeRate = snapshot?.rate ?? null;
+
+    return {
+      address: address.toLowerCase(),
+      balance,
+      lastChangeBlockNumber: change?.blockNumber ?? null,
+      lastChangeTimestamp: change?.timestamp ?? null,
+      snapshotBlockNumber: snapshot?.blockNumber ?? null,
+      snapshotTimestamp: snapshot?.snapshotTimestamp ?? null,
+      exchangeRate,
+      tfuelValue: exchangeRate !== null ? this.toTfuel(balance, exchangeRate) : null,
+    };
+  }
+
+  /**
+   * One point per snapshot rollup period from the first Transfer of the address on,
+   * oldest first, with the balance at the closing block of the period
+   */
+  async getBalanceHistory(address: string, resolution: SnapshotResolution, fromTimestamp: number, toTimestamp: number): Promise<BalanceHistoryPoint[]> {
+    const rows = await AppDataSource.query(
+      `
+      SELECT "r"."periodStart", "r"."periodEnd", "r"."closeRate", COALESCE("b"."balance", 0)::text AS "balance"
+      FROM "snapshot_rollups" "r"
+      LEFT JOIN LATERAL (
+        SELECT "balance" FROM "balance_changes"
+        WHERE "address" = $1 AND "blockNumber" <= "r"."closeBlockNumber"
+        ORDER BY "blockNumber" DESC, "logIndex" DESC
+        LIMIT 1
+      ) "b" ON true
+      WHERE "r"."resolution" = $2
+        AND "r"."periodEnd" > (SELECT MIN("timestamp") FROM "balance_changes" WHERE "address" = $1)
+        AND "r"."periodEnd" > $3
+        AND "r"."periodStart" <= $4
+      ORDER BY "r"."periodStart" ASC
+      `,
+      [address.toLowerCase(), resolution, fromTimestamp, toTimestamp]
+    );
+
+    return rows.map((row: any) => ({
+      periodStart: row.periodStart,
+      periodEnd: row.periodEnd,
+      balance: row.balance,
+      exchangeRate: row.closeRate,
+      tfuelValue: row.closeRate !== null ? this.toTfuel(row.balance, row.closeRate) : null,
+    }));
+  }
+
+  private toTfuel(balance: string, exchangeRate: string): string {
+    return ((BigInt(balance) * BigInt(exchangeRate)) / BigInt('1000000000000000000')).toString();
+  }
+}
+
+export default BalanceHistoryService;
@@ -0,0 +1,113 @@
+import AppDataSource from '../database/data-source';
+import { DeadLetterEvent } from '../database/entities/DeadLetterEvent';
+import { ContractHandler } from '../contracts/registry';
+import NormalizedEventProcessor from './NormalizedEventProcessor';
+
+const EVENT_TABLES: { [handler: string]: string } = {
+  nodeManager: 'node_manager_events',
+  stfuel: 'stfuel_events',
+  adminMultisig: 'contract_events',
+  referralNft: 'contract_events',
+};
+
+export interface RetryResult {
+  retried: number;
+  failed: number;
+}
+
+/**
+ * Lists and retries events whose normalized processing failed. A retry applies the
+ * event on top of the current normalized state; when later events depend on it
+ * (balances, redemption status) a rebuild of the normalized tables is the safer fix.
+ */
+export class DeadLetterService {
+  private normalizedEventProcessor: NormalizedEventProcessor;
+
+  constructor() {
+    this.normalizedEventProcessor = new NormalizedEventProcessor();
+  }
+
+  async list(limit: number = 50, offset: number = 0): Promise<{ deadLetters: DeadLetterEvent[]; totalCount: number }> {
+    const [deadLetters, totalCount] = await AppDataSource.getRepository(DeadLetterEvent)
+      .createQueryBuilder('deadLetter')
+      .orderBy('deadLetter.blockNumber', 'ASC')
+      .addOrderBy('deadLetter.logIndex', 'ASC')
+      .take(limit)
+      .skip(offset)
+      .getManyAndCount();
+
+    return { deadLetters, totalCount };
+  }
+
+  async count(): Promise<number> {
+    return AppDataSource.getRepository(DeadLetterEvent).count();
+  }
+
+  /**
+   * Re-run the handler of a dead-lettered event. On success the dead letter is
+   * removed, on failure its error and attempts are updated. Returns null if there is
+   * no dead letter with this id.
+   */
+  async retry(id: number): Promise<boolean | null> {
+    const deadLetter = await AppDataSource.getRepository(DeadLetterEvent).findOne({ where: { id } });
+    if (!deadLetter) {
+      return null;
+    }
+
+    const handler = deadLetter.handler as ContractHandler;
+    const queryRunner = AppDataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    let event: any = null;
+    try {
+      [event] = await queryRunner.query(
+        `SELECT * FROM "${EVENT_TABLES[handler]}" WHERE "blockNumber" = $1 AND "transactionHash" = $2 AND "logIndex" = $3`,
+        [deadLetter.blockNumber, deadLetter.transactionHash, deadLetter.logIndex]
+      );
+
+      // The raw event is gone (e.g. removed by a reorg) - nothing left to apply
+      if (event) {
+        await this.normalizedEventProcessor.applyEvent(handler, event, queryRunner);
+      }
+
+      await queryRunner.manager.delete(DeadLetterEvent, { id });
+      await queryRunner.commitTransaction();
+      console.log(`Retried dead-lettered ${handler} event ${deadLetter.eventName} at block ${deadLetter.blockNumber}`);
+      return true;
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      console.error(`Retry of dead-lettered ${handler} event ${deadLetter.eventName} at block ${deadLetter.blockNumber} failed:`, error);
+      await this.normalizedEventProcessor.recordDeadLetter(handler, event || { ...deadLetter, id: deadLetter.eventId }, error);
+      return false;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * Retry all dead letters in chain order
+   */
+  async retryAll(): Promise<RetryResult> {
+    const deadLetters = await AppDataSource.getRepository(DeadLetterEvent)
+      .createQueryBuilder('deadLetter')
+      .select(['deadLetter.id'])
+      .orderBy('deadLetter.blockNumber', 'ASC')
+      .addOrderBy('deadLetter.logIndex', 'ASC')
+      .getMany();
+
+    const result: RetryResult = { retried: 0, failed: 0 };
+    for (const { id } of deadLetters) {
+      const succeeded = await this.retry(id);
+      if (succeeded) {
+        result.retried++;
+      } else if (succeeded === false) {
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+}
+
+export default DeadLetterService;
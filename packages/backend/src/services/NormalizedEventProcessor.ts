@@ -1,4 +1,4 @@
-import { Repository, QueryRunner } from 'typeorm';
+import { Repository, QueryRunner, In, IsNull, LessThan } from 'typeorm';
 import AppDataSource from '../database/data-source';
 import { Address } from '../database/entities/Address';
 import { EdgeNode, NodeType } from '../database/entities/EdgeNode';
@@ -6,18 +6,59 @@ import { User } from '../database/entities/User';
 import { RedemptionQueue, RedemptionStatus } from '../database/entities/RedemptionQueue';
 import { NodeManagerEvent } from '../database/entities/NodeManagerEvent';
 import { StfuelEvent } from '../database/entities/StfuelEvent';
+import { ContractEvent } from '../database/entities/ContractEvent';
+import { RoleOperation, RoleOperationStatus, RoleOperationType } from '../database/entities/RoleOperation';
+import { RoleMember } from '../database/entities/RoleMember';
+import { RoleChange, RoleChangeAction } from '../database/entities/RoleChange';
+import { ProtocolParameter, ProtocolParameterName } from '../database/entities/ProtocolParameter';
+import { Referral } from '../database/entities/Referral';
+import { ReferralReward } from '../database/entities/ReferralReward';
+import { ReferralNft } from '../database/entities/ReferralNft';
+import { ReferralNftTransfer } from '../database/entities/ReferralNftTransfer';
+import { NodeIncident } from '../database/entities/NodeIncident';
+import { TreasuryFlow, TreasuryFlowType } from '../database/entities/TreasuryFlow';
+import { BalanceChange } from '../database/entities/BalanceChange';
+import { ContractHandler } from '../contracts/registry';
+import { config } from '../config/environment';
+import { SnapshotMetricsService } from './SnapshotMetricsService';
+
+// Blocks until unstaked TFuel is returned by Theta's native staking (NodeManager.COOLDOWN_PERIOD)
+const UNSTAKE_COOLDOWN_BLOCKS = 28800;
+
+// Blocks with a known timestamp: the recent headers and the blocks of the raw events
+const KNOWN_BLOCK_TIMESTAMPS = `
+  SELECT "blockNumber", "timestamp" FROM "block_headers"
+  UNION ALL SELECT "blockNumber", "timestamp" FROM "stfuel_events"
+  UNION ALL SELECT "blockNumber", "timestamp" FROM "node_manager_events"
+  UNION ALL SELECT "blockNumber", "timestamp" FROM "contract_events"
+`;
+
+// AdminMultisig.OpType enum order
+const ROLE_OPERATION_TYPES_BY_INDEX: RoleOperationType[] = [RoleOperationType.GRANT, RoleOperationType.REVOKE];
+
+// NodeManager.NodeType enum order - index 0 is NodeType.None
+const NODE_TYPES_BY_INDEX: (NodeType | null)[] = [
+  null,
+  NodeType.TENK,
+  NodeType.FIFTYK,
+  NodeType.HUNDREDK,
+  NodeType.TWOHUNDREDK,
+  NodeType.FIVEHUNDREDK
+];
 
 export class NormalizedEventProcessor {
   private addressRepo: Repository<Address>;
   private edgeNodeRepo: Repository<EdgeNode>;
   private userRepo: Repository<User>;
   private redemptionQueueRepo: Repository<RedemptionQueue>;
+  private snapshotMetricsService: SnapshotMetricsService;
 
   constructor() {
     this.addressRepo = AppDataSource.getRepository(Address);
     this.edgeNodeRepo = AppDataSource.getRepository(EdgeNode);
     this.userRepo = AppDataSource.getRepository(User);
     this.redemptionQueueRepo = AppDataSource.getRepository(RedemptionQueue);
+    this.snapshotMetricsService = new SnapshotMetricsService();
   }
 
   /**
@@ -82,44 +123,230 @@ export class NormalizedEventProcessor {
   }
 
   /**
-   * Process NodeManager events
+   * Apply events of several contracts in chain order (blockNumber, logIndex). The
+   * handlers apply order-dependent deltas (balances, redemption status), so events
+   * must never be applied out of order.
    */
-  async processNodeManagerEvent(event: NodeManagerEvent, queryRunner?: QueryRunner): Promise<void> {
+  async processEventsInOrder(events: { handler: ContractHandler; event: any }[], queryRunner?: QueryRunner): Promise<void> {
+    const orderedEvents = [...events].sort((a, b) => {
+      const blockDiff = BigInt(a.event.blockNumber) - BigInt(b.event.blockNumber);
+      if (blockDiff !== BigInt(0)) {
+        return blockDiff < BigInt(0) ? -1 : 1;
+      }
+      return a.event.logIndex - b.event.logIndex;
+    });
+
+    for (const { handler, event } of orderedEvents) {
+      await this.processEvent(handler, event, queryRunner);
+    }
+  }
+
+  /**
+   * Apply a single event. Inside a transaction a failing handler is rolled back to a
+   * savepoint, so it leaves no partial changes; the failure is recorded in
+   * dead_letter_events and the following events are still applied.
+   */
+  async processEvent(handler: ContractHandler, event: any, queryRunner?: QueryRunner): Promise<void> {
+    const useSavepoint = !!queryRunner?.isTransactionActive;
+    if (useSavepoint) {
+      await queryRunner!.query(`SAVEPOINT "normalized_event"`);
+    }
+
     try {
-      switch (event.eventName) {
-        case 'NodeRegistered':
-          await this.processNodeRegistered(event, queryRunner);
-          break;
-        case 'NodeDeactivated':
-          await this.processNodeDeactivated(event, queryRunner);
-          break;
-        case 'NodeMarkedAsFaulty':
-          await this.processNodeMarkedAsFaulty(event, queryRunner);
-          break;
-        case 'FaultyNodeRecovered':
-          await this.processFaultyNodeRecovered(event, queryRunner);
-          break;
-        case 'TFuelStaked':
-          await this.processTFuelStaked(event, queryRunner);
-          break;
-        case 'TFuelUnstaked':
-          await this.processTFuelUnstaked(event, queryRunner);
-          break;
-        case 'KeeperPaid':
-          await this.processKeeperPaid(event, queryRunner);
-          break;
-        case 'CreditAssigned':
-          await this.processCreditAssigned(event, queryRunner);
-          break;
-        case 'KeeperCredited':
-          await this.processKeeperCredited(event, queryRunner);
-          break;
-        default:
-          // Skip unknown events
-          break;
+      await this.applyEvent(handler, event, queryRunner);
+      if (useSavepoint) {
+        await queryRunner!.query(`RELEASE SAVEPOINT "normalized_event"`);
       }
     } catch (error) {
-      console.error(`Error processing NodeManager event ${event.eventName}:`, error);
+      if (useSavepoint) {
+        await queryRunner!.query(`ROLLBACK TO SAVEPOINT "normalized_event"`);
+        await queryRunner!.query(`RELEASE SAVEPOINT "normalized_event"`);
+      }
+      console.error(`Error processing ${handler} event ${event.eventName} at block ${event.blockNumber}, moved to dead letters:`, error);
+      await this.recordDeadLetter(handler, event, error, queryRunner);
+    }
+  }
+
+  /**
+   * Apply a single event with the handler of its contract, throwing on failure. The
+   * running snapshot metrics are updated after the handler, from the state it left.
+   * Within a transaction, the rows it writes are tagged with its block in the undo log.
+   */
+  async applyEvent(handler: ContractHandler, event: any, queryRunner?: QueryRunner): Promise<void> {
+    if (queryRunner?.isTransactionActive) {
+      await queryRunner.query(`SELECT set_config('stfuel.block_number', $1, true)`, [event.blockNumber.toString()]);
+    }
+
+    if (handler === 'nodeManager') {
+      await this.processNodeManagerEvent(event, queryRunner);
+    } else if (handler === 'stfuel') {
+      await this.processStfuelEvent(event, queryRunner);
+    } else if (handler === 'adminMultisig') {
+      await this.processAdminMultisigEvent(event, queryRunner);
+    } else if (handler === 'referralNft') {
+      await this.processReferralNftEvent(event, queryRunner);
+    }
+
+    await this.snapshotMetricsService.applyEvent(handler, event, queryRunner);
+  }
+
+  /**
+   * Record a failed event, or bump the attempts of an event that already failed
+   */
+  async recordDeadLetter(handler: ContractHandler, event: any, error: any, queryRunner?: QueryRunner): Promise<void> {
+    const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
+
+    await manager.query(
+      `
+      INSERT INTO "dead_letter_events" ("handler", "eventId", "eventName", "blockNumber", "transactionHash", "logIndex", "error", "stack")
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT ("handler", "blockNumber", "transactionHash", "logIndex") DO UPDATE SET
+        "eventId" = COALESCE(EXCLUDED."eventId", "dead_letter_events"."eventId"),
+        "error" = EXCLUDED."error",
+        "stack" = EXCLUDED."stack",
+        "attempts" = "dead_letter_events"."attempts" + 1,
+        "updatedAt" = now()
+      `,
+      [
+        handler,
+        event.id ?? null,
+        event.eventName,
+        event.blockNumber.toString(),
+        event.transactionHash,
+        event.logIndex,
+        error?.message || String(error),
+        error?.stack || null,
+      ]
+    );
+  }
+
+  /**
+   * Move pending redemptions whose unlock block has been indexed to unlockable. No event
+   * marks this stage, so it follows the scanner checkpoint instead of the event stream.
+   */
+  async markUnlockableRedemptions(blockNumber: number, queryRunner?: QueryRunner): Promise<void> {
+    const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
+
+    const unlockBlocks: { unlockBlockNumber: string }[] = await manager.query(
+      `SELECT DISTINCT "unlockBlockNumber" FROM "redemption_queue" WHERE "status" = $1 AND "unlockBlockNumber" <= $2`,
+      [RedemptionStatus.PENDING, blockNumber.toString()]
+    );
+
+    for (const { unlockBlockNumber } of unlockBlocks) {
+      await manager.query(
+        `
+        UPDATE "redemption_queue" SET "status" = $1, "unlockTimestamp" = $2, "updatedAt" = now()
+        WHERE "status" = $3 AND "unlockBlockNumber" = $4
+        `,
+        [
+          RedemptionStatus.UNLOCKABLE,
+          await this.getBlockTimestamp(parseInt(unlockBlockNumber), queryRunner),
+          RedemptionStatus.PENDING,
+          unlockBlockNumber,
+        ]
+      );
+    }
+  }
+
+  /**
+   * Timestamp of a block from the stored headers and raw events, so it is still known
+   * once the header is pruned and after a rebuild. Exact when one of them is of this
+   * block, otherwise interpolated between the nearest known blocks around it - or
+   * extrapolated from the two before it. Null when no block before it is known.
+   */
+  private async getBlockTimestamp(blockNumber: number, queryRunner?: QueryRunner): Promise<number | null> {
+    const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
+
+    const nearest = async (comparison: '<=' | '<' | '>', blockNumber: number) => {
+      const [row] = await manager.query(
+        `
+        SELECT "blockNumber", "timestamp" FROM (${KNOWN_BLOCK_TIMESTAMPS}) AS "known"
+        WHERE "blockNumber" ${comparison} $1
+        ORDER BY "blockNumber" ${comparison === '>' ? 'ASC' : 'DESC'}
+        LIMIT 1
+        `,
+        [blockNumber.toString()]
+      );
+      return row ? { blockNumber: parseInt(row.blockNumber), timestamp: row.timestamp } : null;
+    };
+
+    let before = await nearest('<=', blockNumber);
+    if (!before || before.blockNumber === blockNumber) {
+      return before ? before.timestamp : null;
+    }
+
+    let after = await nearest('>', blockNumber);
+    if (!after) {
+      after = before;
+      before = await nearest('<', after.blockNumber);
+      if (!before) {
+        return null;
+      }
+    }
+
+    const blockTime = (after.timestamp - before.timestamp) / (after.blockNumber - before.blockNumber);
+    return Math.round(before.timestamp + (blockNumber - before.blockNumber) * blockTime);
+  }
+
+  /**
+   * Process NodeManager events
+   */
+  async processNodeManagerEvent(event: NodeManagerEvent, queryRunner?: QueryRunner): Promise<void> {
+    switch (event.eventName) {
+      case 'NodeRegistered':
+        await this.processNodeRegistered(event, queryRunner);
+        break;
+      case 'NodeDeactivated':
+        await this.processNodeDeactivated(event, queryRunner);
+        break;
+      case 'NodeMarkedAsFaulty':
+        await this.processNodeMarkedAsFaulty(event, queryRunner);
+        break;
+      case 'FaultyNodeRecovered':
+        await this.processFaultyNodeRecovered(event, queryRunner);
+        break;
+      case 'TFuelStaked':
+        await this.processTFuelStaked(event, queryRunner);
+        break;
+      case 'TFuelUnstaked':
+        await this.processTFuelUnstaked(event, queryRunner);
+        break;
+      case 'KeeperPaid':
+        await this.processKeeperPaid(event, queryRunner);
+        break;
+      case 'CreditAssigned':
+        await this.processCreditAssigned(event, queryRunner);
+        break;
+      case 'KeeperCredited':
+        await this.processKeeperCredited(event, queryRunner);
+        break;
+      case 'RoleGranted':
+        await this.processRoleGranted(event, queryRunner);
+        break;
+      case 'RoleRevoked':
+        await this.processRoleRevoked(event, queryRunner);
+        break;
+      case 'RoleAdminChanged':
+        await this.processRoleAdminChanged(event, queryRunner);
+        break;
+      case 'ParamsUpdated':
+        await this.processParamsUpdated(event, queryRunner);
+        break;
+      case 'StakingPauseChanged':
+        await this.processStakingPauseChanged(event, queryRunner);
+        break;
+      case 'MaxNodesPerStakingCallUpdated':
+        await this.processMaxNodesPerStakingCallUpdated(event, queryRunner);
+        break;
+      case 'TFuelReceived':
+        await this.processTFuelReceived(event, queryRunner);
+        break;
+      case 'KeeperTipSurplus':
+        await this.processKeeperTipSurplus(event, queryRunner);
+        break;
+      default:
+        // Skip unknown events
+        break;
     }
   }
 
@@ -127,38 +354,91 @@ export class NormalizedEventProcessor {
    * Process sTFuel events
    */
   async processStfuelEvent(event: StfuelEvent, queryRunner?: QueryRunner): Promise<void> {
-    try {
-      switch (event.eventName) {
-        case 'Transfer':
-          await this.processTransfer(event, queryRunner);
-          break;
-        case 'Minted':
-          await this.processMinted(event, queryRunner);
-          break;
-        case 'BurnQueued':
-          await this.processBurnQueued(event, queryRunner);
-          break;
-        case 'ReferralRewarded':
-          await this.processReferralRewarded(event, queryRunner);
-          break;
-        case 'BurnAndDirectRedeemed':
-          await this.processBurnAndDirectRedeemed(event, queryRunner);
-          break;
-        case 'Claimed':
-          await this.processClaimed(event, queryRunner);
-          break;
-        case 'CreditsClaimed':
-          await this.processCreditsClaimed(event, queryRunner);
-          break;
-        case 'ReferralAddressSet':
-          await this.processReferralAddressSet(event, queryRunner);
-          break;
-        default:
-          // Skip unknown events
-          break;
-      }
-    } catch (error) {
-      console.error(`Error processing sTFuel event ${event.eventName}:`, error);
+    switch (event.eventName) {
+      case 'Transfer':
+        await this.processTransfer(event, queryRunner);
+        break;
+      case 'Minted':
+        await this.processMinted(event, queryRunner);
+        await this.processMintedDeposit(event, queryRunner);
+        break;
+      case 'BurnQueued':
+        await this.processBurnQueued(event, queryRunner);
+        break;
+      case 'ReferralRewarded':
+        await this.processReferralRewarded(event, queryRunner);
+        break;
+      case 'BurnAndDirectRedeemed':
+        await this.processBurnAndDirectRedeemed(event, queryRunner);
+        break;
+      case 'Claimed':
+        await this.processClaimed(event, queryRunner);
+        break;
+      case 'CreditsClaimed':
+        await this.processCreditsClaimed(event, queryRunner);
+        break;
+      case 'ReferralAddressSet':
+        await this.processReferralAddressSet(event, queryRunner);
+        break;
+      case 'RoleGranted':
+        await this.processRoleGranted(event, queryRunner);
+        break;
+      case 'RoleRevoked':
+        await this.processRoleRevoked(event, queryRunner);
+        break;
+      case 'RoleAdminChanged':
+        await this.processRoleAdminChanged(event, queryRunner);
+        break;
+      case 'MintFeeUpdated':
+        await this.processMintFeeUpdated(event, queryRunner);
+        break;
+      case 'DirectRedeemFeeUpdated':
+        await this.processDirectRedeemFeeUpdated(event, queryRunner);
+        break;
+      case 'Paused':
+      case 'Unpaused':
+        await this.processMintPauseChanged(event, queryRunner);
+        break;
+      default:
+        // Skip unknown events
+        break;
+    }
+  }
+
+  /**
+   * Process AdminMultisig events
+   */
+  async processAdminMultisigEvent(event: ContractEvent, queryRunner?: QueryRunner): Promise<void> {
+    switch (event.eventName) {
+      case 'RoleOpSubmitted':
+        await this.processRoleOpSubmitted(event, queryRunner);
+        break;
+      case 'RoleOpApproved':
+        await this.processRoleOpApproved(event, queryRunner);
+        break;
+      case 'RoleOpExecuted':
+        await this.processRoleOpExecuted(event, queryRunner);
+        break;
+      case 'RoleOpCancelled':
+        await this.processRoleOpCancelled(event, queryRunner);
+        break;
+      default:
+        // Skip unknown events
+        break;
+    }
+  }
+
+  /**
+   * Process referral NFT events
+   */
+  async processReferralNftEvent(event: ContractEvent, queryRunner?: QueryRunner): Promise<void> {
+    switch (event.eventName) {
+      case 'Transfer':
+        await this.processReferralNftTransfer(event, queryRunner);
+        break;
+      default:
+        // Skip approvals and unknown events
+        break;
     }
   }
 
@@ -169,6 +449,7 @@ export class NormalizedEventProcessor {
     if (!nodeAddress) return;
 
     const addressRecord = await this.getOrCreateAddress(nodeAddress, queryRunner);
+    const nodeType = NODE_TYPES_BY_INDEX[Number(event.args?.nodeType)] || null;
     
     const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
     const edgeNodeRepo = manager.getRepository(EdgeNode);
@@ -189,11 +470,11 @@ export class NormalizedEventProcessor {
         totalStaked: '0',
         totalUnstaked: '0',
         unstakeBlock: null,
-        nodeType: event.args?.nodeType as any || null
+        nodeType: nodeType as any
       });
       
       await edgeNodeRepo.save(edgeNode);
-      console.log(`Created EdgeNode for address ${nodeAddress} with type ${event.args?.nodeType || 'None'}`);
+      console.log(`Created EdgeNode for address ${nodeAddress} with type ${nodeType || 'None'}`);
     } else {
       // Update existing node with new registration info
       existingNode.registrationBlock = event.blockNumber;
@@ -201,10 +482,10 @@ export class NormalizedEventProcessor {
       existingNode.isActive = true;
       existingNode.isFaulty = false;
       existingNode.isLive = true;
-      existingNode.nodeType = event.args?.nodeType as any || existingNode.nodeType;
+      existingNode.nodeType = nodeType || existingNode.nodeType;
       
       await edgeNodeRepo.save(existingNode);
-      console.log(`Updated EdgeNode for address ${nodeAddress} with type ${event.args?.nodeType || 'None'}`);
+      console.log(`Updated EdgeNode for address ${nodeAddress} with type ${nodeType || 'None'}`);
     }
   }
 
@@ -237,6 +518,17 @@ export class NormalizedEventProcessor {
     
     const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
     const edgeNodeRepo = manager.getRepository(EdgeNode);
+
+    // Every faulty episode gets its own incident, the edge node only keeps the latest one
+    const incidentRepo = manager.getRepository(NodeIncident);
+    await incidentRepo.save(incidentRepo.create({
+      nodeAddress: nodeAddress.toLowerCase(),
+      stakedAmount: (event.args?.stakedAmount ?? 0).toString(),
+      faultyBlock: event.blockNumber,
+      faultyTimestamp: event.timestamp,
+      faultyTransactionHash: event.transactionHash,
+      faultyLogIndex: event.logIndex,
+    }));
     
     const edgeNode = await edgeNodeRepo.findOne({ 
       where: { addressId: addressRecord.id } 
@@ -258,6 +550,24 @@ export class NormalizedEventProcessor {
     
     const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
     const edgeNodeRepo = manager.getRepository(EdgeNode);
+
+    // FaultyNodeRecovered is only emitted by a successful retryFaultyNodeUnstake
+    const incidentRepo = manager.getRepository(NodeIncident);
+    const incident = await incidentRepo.findOne({
+      where: { nodeAddress: nodeAddress.toLowerCase(), recoveryBlock: IsNull() },
+      order: { faultyBlock: 'DESC' },
+    });
+
+    if (incident) {
+      incident.recoveredAmount = (event.args?.amount ?? 0).toString();
+      incident.recoveryBlock = event.blockNumber;
+      incident.recoveryTimestamp = event.timestamp;
+      incident.recoveryTransactionHash = event.transactionHash;
+      await incidentRepo.save(incident);
+    } else {
+      // Marked as faulty before the first indexed block
+      console.warn(`No open incident for recovered node ${nodeAddress} at block ${event.blockNumber}`);
+    }
     
     const edgeNode = await edgeNodeRepo.findOne({ 
       where: { addressId: addressRecord.id } 
@@ -319,7 +629,8 @@ export class NormalizedEventProcessor {
 
   private async processKeeperPaid(event: NodeManagerEvent, queryRunner?: QueryRunner): Promise<void> {
     const keeperAddress = event.args?.keeper;
-    const tipPaid = event.args?.tipPaid;
+    // KeeperPaid args are canonicalized to the KeeperCredited shape by the ABI version registry
+    const tipPaid = event.args?.tipCredited;
     if (!keeperAddress || !tipPaid) return;
 
     const addressRecord = await this.getOrCreateAddress(keeperAddress, queryRunner);
@@ -344,7 +655,7 @@ export class NormalizedEventProcessor {
 
   private async processCreditAssigned(event: NodeManagerEvent, queryRunner?: QueryRunner): Promise<void> {
     const userAddress = event.args?.user;
-    const queueIndex = event.args?.queueIndex;
+    const queueIndex = event.args?.index;
     const amount = event.args?.amount;
     if (!userAddress || !queueIndex || !amount) return;
 
@@ -359,7 +670,7 @@ export class NormalizedEventProcessor {
       where: {
         userAddressId: addressRecord.id,
         queueIndex: queueIndex,
-        status: RedemptionStatus.PENDING
+        status: In([RedemptionStatus.PENDING, RedemptionStatus.UNLOCKABLE])
       }
     });
 
@@ -412,7 +723,7 @@ export class NormalizedEventProcessor {
 
   private async processKeeperCredited(event: NodeManagerEvent, queryRunner?: QueryRunner): Promise<void> {
     const keeperAddress = event.args?.keeper;
-    const tipPaid = event.args?.tipPaid;
+    const tipPaid = event.args?.tipCredited;
     if (!keeperAddress || !tipPaid) return;
 
     const addressRecord = await this.getOrCreateAddress(keeperAddress, queryRunner);
@@ -472,6 +783,7 @@ export class NormalizedEventProcessor {
     const fromAddressRecord = await this.getOrCreateAddress(fromAddress, queryRunner);
     const toAddressRecord = await this.getOrCreateAddress(toAddress, queryRunner);
     const transferAmount = BigInt(value);
+    const isSelfTransfer = fromAddress.toLowerCase() === toAddress.toLowerCase();
 
     const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
     const userRepo = manager.getRepository(User);
@@ -506,6 +818,11 @@ export class NormalizedEventProcessor {
       fromUser.lastActivityBlock = event.blockNumber;
       fromUser.lastActivityTimestamp = event.timestamp;
       await userRepo.save(fromUser);
+
+      // A transfer to self gets a single entry, on the receiver side
+      if (!isSelfTransfer) {
+        await this.recordBalanceChange(event, fromAddress, -transferAmount, fromUser.stfuelBalance, queryRunner);
+      }
     }
 
     // Update receiver balance (if not zero address)
@@ -538,9 +855,27 @@ export class NormalizedEventProcessor {
       toUser.lastActivityBlock = event.blockNumber;
       toUser.lastActivityTimestamp = event.timestamp;
       await userRepo.save(toUser);
+
+      await this.recordBalanceChange(event, toAddress, isSelfTransfer ? BigInt(0) : transferAmount, toUser.stfuelBalance, queryRunner);
     }
   }
 
+  // Entry of the balance history of an address, with its balance after the Transfer
+  private async recordBalanceChange(event: StfuelEvent, address: string, amount: bigint, balance: string, queryRunner?: QueryRunner): Promise<void> {
+    const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
+    const balanceChangeRepo = manager.getRepository(BalanceChange);
+
+    await balanceChangeRepo.save(balanceChangeRepo.create({
+      address: address.toLowerCase(),
+      amount: amount.toString(),
+      balance,
+      blockNumber: event.blockNumber,
+      timestamp: event.timestamp,
+      transactionHash: event.transactionHash,
+      logIndex: event.logIndex,
+    }));
+  }
+
   private async processMinted(event: StfuelEvent, queryRunner?: QueryRunner): Promise<void> {
     const userAddress = event.args?.user;
     const tfuelIn = event.args?.tfuelIn;
@@ -593,9 +928,9 @@ export class NormalizedEventProcessor {
   private async processBurnQueued(event: StfuelEvent, queryRunner?: QueryRunner): Promise<void> {
     const userAddress = event.args?.user;
     const sharesBurned = event.args?.sharesBurned;
-    const tfuelOut = event.args?.tfuelOut;
+    const tfuelOut = event.args?.netTFuelOut;
     const tip = event.args?.tip;
-    const queueIndex = event.args?.queueIndex;
+    const queueIndex = event.args?.index;
     if (!userAddress || !sharesBurned || !tfuelOut || !tip || !queueIndex) return;
 
     const addressRecord = await this.getOrCreateAddress(userAddress, queryRunner);
@@ -604,8 +939,10 @@ export class NormalizedEventProcessor {
     const redemptionQueueRepo = manager.getRepository(RedemptionQueue);
     const userRepo = manager.getRepository(User);
     
-    // Calculate unlock block number (requestBlock + 28800)
-    const unlockBlockNumber = (BigInt(event.blockNumber) + BigInt(28800)).toString();
+    // Unlock block number from readyAt, or requestBlock + COOLDOWN_PERIOD (28800)
+    const unlockBlockNumber = event.args.readyAt !== undefined
+      ? event.args.readyAt.toString()
+      : (BigInt(event.blockNumber) + BigInt(28800)).toString();
     
     // Create redemption queue entry
     const redemptionEntry = redemptionQueueRepo.create({
@@ -661,6 +998,30 @@ export class NormalizedEventProcessor {
       user.totalReferralFeesEarned = (currentRewards + newReward).toString();
       await userRepo.save(user);
     }
+
+    const referralId = event.args.fromReferralId;
+    if (referralId === undefined || referralId === null) return;
+
+    // mintWithReferral emits Minted right before ReferralRewarded in the same transaction
+    const minted = await manager.getRepository(StfuelEvent).findOne({
+      where: { transactionHash: event.transactionHash, eventName: 'Minted', logIndex: LessThan(event.logIndex) },
+      order: { logIndex: 'DESC' },
+    });
+
+    const rewardRepo = manager.getRepository(ReferralReward);
+    await rewardRepo.save(rewardRepo.create({
+      referralId: referralId.toString(),
+      referrer: referrerAddress,
+      rewardShares: rewardShares.toString(),
+      minter: minted?.args?.user ?? null,
+      mintTfuelIn: minted?.args?.tfuelIn?.toString() ?? null,
+      mintFeeTFuel: minted?.args?.feeTFuel?.toString() ?? null,
+      mintLogIndex: minted?.logIndex ?? null,
+      blockNumber: event.blockNumber,
+      timestamp: event.timestamp,
+      transactionHash: event.transactionHash,
+      logIndex: event.logIndex,
+    }));
   }
 
   private async processBurnAndDirectRedeemed(event: StfuelEvent, queryRunner?: QueryRunner): Promise<void> {
@@ -704,6 +1065,24 @@ export class NormalizedEventProcessor {
     
     const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
     const userRepo = manager.getRepository(User);
+
+    // The head of the queue was paid out directly, without being credited first
+    const queueIndex = event.args.index;
+    if (queueIndex !== undefined && queueIndex !== null) {
+      const redemptionQueueRepo = manager.getRepository(RedemptionQueue);
+      const redemption = await redemptionQueueRepo.findOne({
+        where: {
+          userAddressId: addressRecord.id,
+          queueIndex: queueIndex.toString(),
+          status: In([RedemptionStatus.PENDING, RedemptionStatus.UNLOCKABLE])
+        }
+      });
+
+      if (redemption) {
+        this.markClaimed(redemption, event);
+        await redemptionQueueRepo.save(redemption);
+      }
+    }
     
     const user = await userRepo.findOne({ 
       where: { addressId: addressRecord.id } 
@@ -732,6 +1111,16 @@ export class NormalizedEventProcessor {
       where: { addressId: addressRecord.id } 
     });
     
+    // claimTFuel withdraws all credits, so every credited entry of the user is claimed
+    const redemptionQueueRepo = manager.getRepository(RedemptionQueue);
+    const creditedRedemptions = await redemptionQueueRepo.find({
+      where: { userAddressId: addressRecord.id, status: RedemptionStatus.CREDITED }
+    });
+    for (const redemption of creditedRedemptions) {
+      this.markClaimed(redemption, event);
+    }
+    await redemptionQueueRepo.save(creditedRedemptions);
+    
     if (user) {
       const currentCredits = BigInt(user.creditsAvailable);
       const currentWithdrawn = BigInt(user.totalWithdrawn);
@@ -744,9 +1133,416 @@ export class NormalizedEventProcessor {
     }
   }
 
+  private markClaimed(redemption: RedemptionQueue, event: StfuelEvent): void {
+    redemption.status = RedemptionStatus.CLAIMED;
+    redemption.claimedBlock = event.blockNumber;
+    redemption.claimedTimestamp = event.timestamp;
+    redemption.claimedTransactionHash = event.transactionHash;
+  }
+
   private async processReferralAddressSet(event: StfuelEvent, queryRunner?: QueryRunner): Promise<void> {
-    // This is optional enhancement - for now we just log it
-    console.log(`Referral address set event processed for block ${event.blockNumber}`);
+    const referralId = event.args?.referralId;
+    const referralAddress = event.args?.referralAddress;
+    if (referralId === undefined || referralId === null || !referralAddress) return;
+
+    const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
+    const referralRepo = manager.getRepository(Referral);
+
+    // The previous payout address of this referral id stops receiving rewards
+    await referralRepo.update(
+      { referralId: referralId.toString(), replacedBlock: IsNull() },
+      { replacedBlock: event.blockNumber, replacedTimestamp: event.timestamp }
+    );
+
+    await referralRepo.save(referralRepo.create({
+      referralId: referralId.toString(),
+      payoutAddress: referralAddress,
+      setBlock: event.blockNumber,
+      setTimestamp: event.timestamp,
+      setTransactionHash: event.transactionHash,
+      setLogIndex: event.logIndex,
+    }));
+
+    console.log(`Referral ${referralId} now pays out to ${referralAddress}`);
+  }
+
+  // AccessControl Event Handlers (NodeManager and sTFuel)
+
+  private async recordRoleChange(event: NodeManagerEvent | StfuelEvent, change: Partial<RoleChange>, queryRunner?: QueryRunner): Promise<void> {
+    const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
+    const roleChangeRepo = manager.getRepository(RoleChange);
+
+    await roleChangeRepo.save(roleChangeRepo.create({
+      ...change,
+      contractAddress: event.address.toLowerCase(),
+      role: event.args.role,
+      blockNumber: event.blockNumber,
+      timestamp: event.timestamp,
+      transactionHash: event.transactionHash,
+      logIndex: event.logIndex,
+    }));
+  }
+
+  private async processRoleGranted(event: NodeManagerEvent | StfuelEvent, queryRunner?: QueryRunner): Promise<void> {
+    const role = event.args?.role;
+    const account = event.args?.account;
+    if (!role || !account) return;
+
+    await this.recordRoleChange(event, { action: RoleChangeAction.GRANTED, account, sender: event.args.sender }, queryRunner);
+
+    const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
+    const roleMemberRepo = manager.getRepository(RoleMember);
+    const contractAddress = event.address.toLowerCase();
+
+    // AccessControl only emits RoleGranted for accounts that did not hold the role
+    const member = (await roleMemberRepo.findOne({ where: { contractAddress, role, account } }))
+      || roleMemberRepo.create({ contractAddress, role, account });
+
+    member.grantedBy = event.args.sender;
+    member.grantedBlock = event.blockNumber;
+    member.grantedTimestamp = event.timestamp;
+    member.grantedTransactionHash = event.transactionHash;
+    await roleMemberRepo.save(member);
+
+    console.log(`Role ${role} granted to ${account} on ${contractAddress}`);
+  }
+
+  private async processRoleRevoked(event: NodeManagerEvent | StfuelEvent, queryRunner?: QueryRunner): Promise<void> {
+    const role = event.args?.role;
+    const account = event.args?.account;
+    if (!role || !account) return;
+
+    await this.recordRoleChange(event, { action: RoleChangeAction.REVOKED, account, sender: event.args.sender }, queryRunner);
+
+    const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
+    await manager.getRepository(RoleMember).delete({ contractAddress: event.address.toLowerCase(), role, account });
+
+    console.log(`Role ${role} revoked from ${account} on ${event.address.toLowerCase()}`);
+  }
+
+  private async processRoleAdminChanged(event: NodeManagerEvent | StfuelEvent, queryRunner?: QueryRunner): Promise<void> {
+    if (!event.args?.role) return;
+
+    await this.recordRoleChange(event, {
+      action: RoleChangeAction.ADMIN_CHANGED,
+      previousAdminRole: event.args.previousAdminRole,
+      newAdminRole: event.args.newAdminRole,
+    }, queryRunner);
+  }
+
+  // Protocol Parameter Handlers (NodeManager and sTFuel)
+
+  private async recordProtocolParameters(
+    event: NodeManagerEvent | StfuelEvent,
+    values: Partial<Record<ProtocolParameterName, string>>,
+    queryRunner?: QueryRunner
+  ): Promise<void> {
+    const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
+    const parameterRepo = manager.getRepository(ProtocolParameter);
+
+    for (const [parameter, value] of Object.entries(values)) {
+      if (value === undefined) continue;
+
+      await parameterRepo.save(parameterRepo.create({
+        contractAddress: event.address.toLowerCase(),
+        parameter: parameter as ProtocolParameterName,
+        value,
+        blockNumber: event.blockNumber,
+        timestamp: event.timestamp,
+        transactionHash: event.transactionHash,
+        logIndex: event.logIndex,
+      }));
+
+      console.log(`Protocol parameter ${parameter} set to ${value} at block ${event.blockNumber}`);
+    }
+  }
+
+  private async processParamsUpdated(event: NodeManagerEvent, queryRunner?: QueryRunner): Promise<void> {
+    if (event.args?.keeperTipBps === undefined) return;
+
+    // withdrawFeeBps is only part of the event in some NodeManager versions
+    await this.recordProtocolParameters(event, {
+      [ProtocolParameterName.WITHDRAW_FEE_BPS]: event.args.withdrawFeeBps?.toString(),
+      [ProtocolParameterName.KEEPER_TIP_BPS]: event.args.keeperTipBps.toString(),
+      [ProtocolParameterName.KEEPER_TIP_MAX]: event.args.keeperTipMax?.toString(),
+    }, queryRunner);
+  }
+
+  private async processStakingPauseChanged(event: NodeManagerEvent, queryRunner?: QueryRunner): Promise<void> {
+    if (event.args?.paused === undefined) return;
+
+    await this.recordProtocolParameters(event, {
+      [ProtocolParameterName.STAKING_PAUSED]: event.args.paused.toString(),
+    }, queryRunner);
+  }
+
+  private async processMaxNodesPerStakingCallUpdated(event: NodeManagerEvent, queryRunner?: QueryRunner): Promise<void> {
+    if (event.args?.maxNodes === undefined) return;
+
+    await this.recordProtocolParameters(event, {
+      [ProtocolParameterName.MAX_NODES_PER_STAKING_CALL]: event.args.maxNodes.toString(),
+    }, queryRunner);
+  }
+
+  private async processMintFeeUpdated(event: StfuelEvent, queryRunner?: QueryRunner): Promise<void> {
+    if (event.args?.feeBps === undefined) return;
+
+    await this.recordProtocolParameters(event, {
+      [ProtocolParameterName.MINT_FEE_BPS]: event.args.feeBps.toString(),
+    }, queryRunner);
+  }
+
+  private async processDirectRedeemFeeUpdated(event: StfuelEvent, queryRunner?: QueryRunner): Promise<void> {
+    if (event.args?.feeBps === undefined) return;
+
+    await this.recordProtocolParameters(event, {
+      [ProtocolParameterName.DIRECT_REDEEM_FEE_BPS]: event.args.feeBps.toString(),
+    }, queryRunner);
+  }
+
+  // sTFuel's Pausable only gates minting
+  private async processMintPauseChanged(event: StfuelEvent, queryRunner?: QueryRunner): Promise<void> {
+    await this.recordProtocolParameters(event, {
+      [ProtocolParameterName.MINT_PAUSED]: (event.eventName === 'Paused').toString(),
+    }, queryRunner);
+  }
+
+  // Treasury Flow Handlers
+
+  private async recordTreasuryFlow(
+    event: NodeManagerEvent | StfuelEvent,
+    flow: Partial<TreasuryFlow>,
+    queryRunner?: QueryRunner
+  ): Promise<void> {
+    const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
+    const treasuryFlowRepo = manager.getRepository(TreasuryFlow);
+
+    await treasuryFlowRepo.save(treasuryFlowRepo.create({
+      from: null,
+      nodeAddress: null,
+      unstakeTransactionHash: null,
+      unstakeLogIndex: null,
+      ...flow,
+      blockNumber: event.blockNumber,
+      timestamp: event.timestamp,
+      transactionHash: event.transactionHash,
+      logIndex: event.logIndex,
+    }));
+  }
+
+  private async processTFuelReceived(event: NodeManagerEvent, queryRunner?: QueryRunner): Promise<void> {
+    const from = event.args?.from;
+    const amount = event.args?.amount;
+    if (!from || amount === undefined) return;
+
+    if (event.args.isFallback) {
+      await this.recordTreasuryFlow(event, { flowType: TreasuryFlowType.FALLBACK, amount: amount.toString(), from }, queryRunner);
+      return;
+    }
+    if (from === config.stfuelAddress.toLowerCase()) {
+      await this.recordTreasuryFlow(event, { flowType: TreasuryFlowType.USER_DEPOSIT, amount: amount.toString(), from }, queryRunner);
+      return;
+    }
+
+    // Native staking returns unstaked TFuel once the cooldown has passed - match the oldest
+    // matured TFuelUnstaked of the same amount that no earlier return was matched with
+    const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
+    const [unstake] = await manager.query(
+      `
+      SELECT "unstake"."args"->>'node' AS "node", "unstake"."transactionHash", "unstake"."logIndex"
+      FROM "node_manager_events" "unstake"
+      WHERE "unstake"."eventName" = 'TFuelUnstaked'
+        AND "unstake"."args"->>'amount' = $1
+        AND "unstake"."blockNumber" + $2 <= $3
+        AND NOT EXISTS (
+          SELECT 1 FROM "treasury_flows" "flow"
+          WHERE "flow"."unstakeTransactionHash" = "unstake"."transactionHash"
+            AND "flow"."unstakeLogIndex" = "unstake"."logIndex"
+        )
+      ORDER BY "unstake"."blockNumber" ASC, "unstake"."logIndex" ASC
+      LIMIT 1
+      `,
+      [amount.toString(), UNSTAKE_COOLDOWN_BLOCKS, event.blockNumber]
+    );
+
+    if (unstake) {
+      await this.recordTreasuryFlow(event, {
+        flowType: TreasuryFlowType.UNSTAKE_RETURN,
+        amount: amount.toString(),
+        from,
+        nodeAddress: unstake.node,
+        unstakeTransactionHash: unstake.transactionHash,
+        unstakeLogIndex: unstake.logIndex,
+      }, queryRunner);
+      return;
+    }
+
+    // Only a known reward sender makes an inflow income - a plain transfer or a return of
+    // several unstakes at once would otherwise inflate the realized yield
+    const flowType = config.stakingRewardSenders.includes(from.toLowerCase())
+      ? TreasuryFlowType.STAKING_REWARD
+      : TreasuryFlowType.UNCLASSIFIED;
+    await this.recordTreasuryFlow(event, { flowType, amount: amount.toString(), from }, queryRunner);
+  }
+
+  private async processKeeperTipSurplus(event: NodeManagerEvent, queryRunner?: QueryRunner): Promise<void> {
+    const amount = event.args?.amount;
+    if (amount === undefined) return;
+
+    await this.recordTreasuryFlow(event, { flowType: TreasuryFlowType.KEEPER_TIP_SURPLUS, amount: amount.toString() }, queryRunner);
+  }
+
+  // Minting deposits the TFuel through NodeManager.depositTFuel, which emits no TFuelReceived
+  private async processMintedDeposit(event: StfuelEvent, queryRunner?: QueryRunner): Promise<void> {
+    const user = event.args?.user;
+    const tfuelIn = event.args?.tfuelIn;
+    if (!user || tfuelIn === undefined) return;
+
+    await this.recordTreasuryFlow(event, { flowType: TreasuryFlowType.USER_DEPOSIT, amount: tfuelIn.toString(), from: user }, queryRunner);
+  }
+
+  // AdminMultisig Event Handlers
+
+  private async findRoleOperation(event: ContractEvent, queryRunner?: QueryRunner): Promise<RoleOperation | null> {
+    const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
+
+    return manager.getRepository(RoleOperation).findOne({
+      where: {
+        multisigAddress: event.address.toLowerCase(),
+        opId: event.args.opId,
+      }
+    });
+  }
+
+  private async processRoleOpSubmitted(event: ContractEvent, queryRunner?: QueryRunner): Promise<void> {
+    const opId = event.args?.opId;
+    if (opId === undefined) return;
+
+    const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
+    const roleOperationRepo = manager.getRepository(RoleOperation);
+
+    // The proposer's approval follows as a separate RoleOpApproved event
+    const operation = (await this.findRoleOperation(event, queryRunner)) || roleOperationRepo.create({
+      multisigAddress: event.address.toLowerCase(),
+      opId: opId,
+      approvals: 0,
+      approvers: [],
+      status: RoleOperationStatus.PENDING,
+    });
+
+    operation.opType = ROLE_OPERATION_TYPES_BY_INDEX[Number(event.args.opType)];
+    operation.role = event.args.role;
+    operation.account = event.args.account;
+    operation.target = event.args.target;
+    operation.proposer = event.args.proposer;
+    operation.submittedBlock = event.blockNumber;
+    operation.submittedTimestamp = event.timestamp;
+    operation.submittedTransactionHash = event.transactionHash;
+    await roleOperationRepo.save(operation);
+
+    console.log(`Role operation ${opId} submitted: ${operation.opType} ${operation.role} for ${operation.account} on ${operation.target}`);
+  }
+
+  private async processRoleOpApproved(event: ContractEvent, queryRunner?: QueryRunner): Promise<void> {
+    const owner = event.args?.owner;
+    if (!owner) return;
+
+    // Operations submitted before the indexed range are only known once executed
+    const operation = await this.findRoleOperation(event, queryRunner);
+    if (!operation) return;
+
+    const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
+    operation.approvals = Number(event.args.approvals);
+    if (!operation.approvers.includes(owner)) {
+      operation.approvers = [...operation.approvers, owner];
+    }
+    await manager.getRepository(RoleOperation).save(operation);
+  }
+
+  private async processRoleOpExecuted(event: ContractEvent, queryRunner?: QueryRunner): Promise<void> {
+    const opId = event.args?.opId;
+    if (opId === undefined) return;
+
+    const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
+    const roleOperationRepo = manager.getRepository(RoleOperation);
+
+    const operation = (await this.findRoleOperation(event, queryRunner)) || roleOperationRepo.create({
+      multisigAddress: event.address.toLowerCase(),
+      opId: opId,
+      opType: ROLE_OPERATION_TYPES_BY_INDEX[Number(event.args.opType)],
+      role: event.args.role,
+      account: event.args.account,
+      target: event.args.target,
+      proposer: null,
+      approvals: 0,
+      approvers: [],
+    });
+
+    operation.status = RoleOperationStatus.EXECUTED;
+    operation.executedBlock = event.blockNumber;
+    operation.executedTimestamp = event.timestamp;
+    operation.executedTransactionHash = event.transactionHash;
+    await roleOperationRepo.save(operation);
+
+    console.log(`Role operation ${opId} executed: ${operation.opType} ${operation.role} for ${operation.account} on ${operation.target}`);
+  }
+
+  private async processRoleOpCancelled(event: ContractEvent, queryRunner?: QueryRunner): Promise<void> {
+    if (event.args?.opId === undefined) return;
+
+    const operation = await this.findRoleOperation(event, queryRunner);
+    if (!operation) return;
+
+    const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
+    operation.status = RoleOperationStatus.CANCELLED;
+    operation.cancelledBlock = event.blockNumber;
+    operation.cancelledTimestamp = event.timestamp;
+    await manager.getRepository(RoleOperation).save(operation);
+  }
+
+  // Referral NFT Event Handlers
+
+  private async processReferralNftTransfer(event: ContractEvent, queryRunner?: QueryRunner): Promise<void> {
+    const from = event.args?.from;
+    const to = event.args?.to;
+    const tokenId = event.args?.tokenId;
+    if (!from || !to || tokenId === undefined || tokenId === null) return;
+
+    const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
+    const contractAddress = event.address.toLowerCase();
+    const transferRepo = manager.getRepository(ReferralNftTransfer);
+
+    await transferRepo.save(transferRepo.create({
+      contractAddress,
+      tokenId: tokenId.toString(),
+      from,
+      to,
+      blockNumber: event.blockNumber,
+      timestamp: event.timestamp,
+      transactionHash: event.transactionHash,
+      logIndex: event.logIndex,
+    }));
+
+    const nftRepo = manager.getRepository(ReferralNft);
+
+    if (to === '0x0000000000000000000000000000000000000000') {
+      await nftRepo.delete({ contractAddress, tokenId: tokenId.toString() });
+      console.log(`Referral NFT ${tokenId} burned`);
+      return;
+    }
+
+    const nft = (await nftRepo.findOne({ where: { contractAddress, tokenId: tokenId.toString() } }))
+      || nftRepo.create({ contractAddress, tokenId: tokenId.toString(), mintedBlock: null, mintedTimestamp: null });
+
+    if (from === '0x0000000000000000000000000000000000000000') {
+      nft.mintedBlock = event.blockNumber;
+      nft.mintedTimestamp = event.timestamp;
+    }
+    nft.owner = to;
+    nft.lastTransferBlock = event.blockNumber;
+    nft.lastTransferTimestamp = event.timestamp;
+    nft.lastTransferTransactionHash = event.transactionHash;
+    await nftRepo.save(nft);
   }
 }
 
@@ -0,0 +1,372 @@
+import { QueryRunner } from 'typeorm';
+import AppDataSource from '../database/data-source';
+import { SyncState } from '../database/entities/SyncState';
+import NormalizedEventProcessor from './NormalizedEventProcessor';
+import { loadContractRegistry } from '../contracts/registry';
+import { RedemptionStatus } from '../database/entities/RedemptionQueue';
+import { config } from '../config/environment';
+
+const REPLAY_PAGE_SIZE = 1000;
+
+// sync_state key of the block after which the undo log holds every normalized row change
+const UNDO_SYNC_KEY = 'normalizedUndo';
+
+// Tables derived from the raw events, emptied before a rebuild. Each has a trigger
+// recording its row changes in normalized_undo_log.
+export const NORMALIZED_TABLES = ['users', 'edge_nodes', 'redemption_queue', 'role_operations', 'role_members', 'role_changes', 'protocol_parameters', 'referrals', 'referral_rewards', 'referral_nfts', 'referral_nft_transfers', 'node_incidents', 'treasury_flows', 'snapshot_metrics', 'balance_changes'];
+
+export interface ReplayOptions {
+  // Block range of interest (inclusive) - all events are still replayed from genesis, the
+  // range only limits which dead letters are cleared and re-recorded
+  fromBlock?: number;
+  toBlock?: number;
+  // Called right before the first event of the range and right after its last one,
+  // e.g. to capture the rows the range touches
+  onRangeStart?: () => Promise<void>;
+  onRangeEnd?: () => Promise<void>;
+}
+
+// Rows of each normalized table keyed by address (and queue index), without generated columns
+export type NormalizedState = { [table: string]: Map<string, any> };
+
+export interface NormalizedStateChange {
+  table: string;
+  key: string;
+  change: 'added' | 'removed' | 'changed';
+  fields: { [field: string]: { before: any; after: any } };
+}
+
+// Generated ids and timestamps differ between rebuilds and are left out of the comparison
+const STATE_QUERIES: { [table: string]: string } = {
+  users: `
+    SELECT "a"."address" AS "key", to_jsonb("u") - 'id' - 'addressId' - 'createdAt' - 'updatedAt' AS "row"
+    FROM "users" "u" JOIN "addresses" "a" ON "a"."id" = "u"."addressId"
+  `,
+  edge_nodes: `
+    SELECT "a"."address" AS "key", to_jsonb("n") - 'id' - 'addressId' - 'createdAt' - 'updatedAt' AS "row"
+    FROM "edge_nodes" "n" JOIN "addresses" "a" ON "a"."id" = "n"."addressId"
+  `,
+  redemption_queue: `
+    SELECT "a"."address" || '#' || "r"."queueIndex" AS "key",
+           to_jsonb("r") - 'id' - 'userAddressId' - 'createdAt' - 'updatedAt' AS "row"
+    FROM "redemption_queue" "r" JOIN "addresses" "a" ON "a"."id" = "r"."userAddressId"
+  `,
+  role_operations: `
+    SELECT "o"."multisigAddress" || '#' || "o"."opId" AS "key",
+           to_jsonb("o") - 'id' - 'createdAt' - 'updatedAt' AS "row"
+    FROM "role_operations" "o"
+  `,
+  role_members: `
+    SELECT "m"."contractAddress" || '#' || "m"."role" || '#' || "m"."account" AS "key",
+           to_jsonb("m") - 'id' - 'createdAt' - 'updatedAt' AS "row"
+    FROM "role_members" "m"
+  `,
+  role_changes: `
+    SELECT "c"."blockNumber" || '#' || "c"."logIndex" AS "key",
+           to_jsonb("c") - 'id' - 'createdAt' AS "row"
+    FROM "role_changes" "c"
+  `,
+  protocol_parameters: `
+    SELECT "p"."blockNumber" || '#' || "p"."logIndex" || '#' || "p"."parameter" AS "key",
+           to_jsonb("p") - 'id' - 'createdAt' AS "row"
+    FROM "protocol_parameters" "p"
+  `,
+  referrals: `
+    SELECT "r"."setBlock" || '#' || "r"."setLogIndex" AS "key",
+           to_jsonb("r") - 'id' - 'createdAt' - 'updatedAt' AS "row"
+    FROM "referrals" "r"
+  `,
+  referral_rewards: `
+    SELECT "r"."blockNumber" || '#' || "r"."logIndex" AS "key",
+           to_jsonb("r") - 'id' - 'createdAt' AS "row"
+    FROM "referral_rewards" "r"
+  `,
+  referral_nfts: `
+    SELECT "n"."contractAddress" || '#' || "n"."tokenId" AS "key",
+           to_jsonb("n") - 'id' - 'createdAt' - 'updatedAt' AS "row"
+    FROM "referral_nfts" "n"
+  `,
+  referral_nft_transfers: `
+    SELECT "t"."blockNumber" || '#' || "t"."logIndex" AS "key",
+           to_jsonb("t") - 'id' - 'createdAt' AS "row"
+    FROM "referral_nft_transfers" "t"
+  `,
+  node_incidents: `
+    SELECT "i"."faultyBlock" || '#' || "i"."faultyLogIndex" AS "key",
+           to_jsonb("i") - 'id' - 'createdAt' - 'updatedAt' AS "row"
+    FROM "node_incidents" "i"
+  `,
+  treasury_flows: `
+    SELECT "f"."blockNumber" || '#' || "f"."logIndex" AS "key",
+           to_jsonb("f") - 'id' - 'createdAt' AS "row"
+    FROM "treasury_flows" "f"
+  `,
+  snapshot_metrics: `
+    SELECT "m"."key" AS "key",
+           to_jsonb("m") - 'id' - 'createdAt' - 'updatedAt' AS "row"
+    FROM "snapshot_metrics" "m"
+  `,
+  balance_changes: `
+    SELECT "b"."blockNumber" || '#' || "b"."logIndex" || '#' || "b"."address" AS "key",
+           to_jsonb("b") - 'id' - 'createdAt' AS "row"
+    FROM "balance_changes" "b"
+  `,
+};
+
+export class NormalizedReplayService {
+  private normalizedEventProcessor: NormalizedEventProcessor;
+
+  constructor() {
+    this.normalizedEventProcessor = new NormalizedEventProcessor();
+  }
+
+  /**
+   * Rebuild the normalized tables from the stored raw events.
+   * The normalized handlers apply incremental deltas, so the only safe way to undo
+   * a subset of events (e.g. after a chain reorganization) is to replay the rest.
+   * The tables are always rebuilt from every event - replaying only part of them would
+   * lose the earlier state or leave the tables behind the scanner checkpoint.
+   * Rows are deleted rather than truncated: TRUNCATE would lock the tables against API
+   * reads until the replay commits, while with DELETE they keep seeing the previous state.
+   */
+  async rebuild(queryRunner: QueryRunner, options: ReplayOptions = {}): Promise<number> {
+    console.log('Rebuilding normalized tables from raw events...');
+
+    const fromBlock = (options.fromBlock ?? 0).toString();
+    const toBlock = options.toBlock !== undefined ? options.toBlock.toString() : null;
+    let rangeStarted = false;
+    let rangeEnded = false;
+
+    for (const table of NORMALIZED_TABLES) {
+      await queryRunner.query(`DELETE FROM "${table}"`);
+    }
+
+    // The undo log is rebuilt along with the tables, for the blocks a reorg can still reach
+    const [mainState] = await queryRunner.query(`SELECT "lastBlockNumber" FROM "sync_state" WHERE "key" = 'main'`);
+    const undoFromBlock = mainState ? parseInt(mainState.lastBlockNumber) - config.reorgConfirmationDepth : 0;
+    await queryRunner.query(`DELETE FROM "normalized_undo_log"`);
+    await queryRunner.query(`SELECT set_config('stfuel.undo_from_block', $1, true)`, [undoFromBlock.toString()]);
+
+    // Events of the replayed range that fail again are recorded anew
+    await queryRunner.query(
+      `DELETE FROM "dead_letter_events" WHERE "blockNumber" >= $1 AND ($2::bigint IS NULL OR "blockNumber" <= $2::bigint)`,
+      [fromBlock, toBlock]
+    );
+
+    // Multisig and referral NFT events are stored in contract_events along with the generic contracts
+    const registry = loadContractRegistry();
+    const adminMultisigNames = registry
+      .filter(contract => contract.handler === 'adminMultisig')
+      .map(contract => contract.name);
+    const referralNftNames = registry
+      .filter(contract => contract.handler === 'referralNft')
+      .map(contract => contract.name);
+
+    let replayedCount = 0;
+    let lastBlockNumber = '-1';
+    let lastLogIndex = -1;
+
+    while (true) {
+      // Merge the raw event tables into a single stream in chain order
+      const rows: any[] = await queryRunner.query(
+        `
+        SELECT * FROM (
+          SELECT 'nodeManager' AS "source", "id", "eventName", "blockNumber", "transactionHash",
+                 "transactionIndex", "logIndex", "timestamp", "address", "args"
+          FROM "node_manager_events"
+          UNION ALL
+          SELECT 'stfuel' AS "source", "id", "eventName", "blockNumber", "transactionHash",
+                 "transactionIndex", "logIndex", "timestamp", "address", "args"
+          FROM "stfuel_events"
+          UNION ALL
+          SELECT 'adminMultisig' AS "source", "id", "eventName", "blockNumber", "transactionHash",
+                 "transactionIndex", "logIndex", "timestamp", "address", "args"
+          FROM "contract_events"
+          WHERE "contractName" = ANY($3)
+          UNION ALL
+          SELECT 'referralNft' AS "source", "id", "eventName", "blockNumber", "transactionHash",
+                 "transactionIndex", "logIndex", "timestamp", "address", "args"
+          FROM "contract_events"
+          WHERE "contractName" = ANY($4)
+        ) AS "event"
+        WHERE ("event"."blockNumber", "event"."logIndex") > ($1, $2)
+        ORDER BY "event"."blockNumber" ASC, "event"."logIndex" ASC
+        LIMIT ${REPLAY_PAGE_SIZE}
+        `,
+        [lastBlockNumber, lastLogIndex, adminMultisigNames, referralNftNames]
+      );
+
+      if (rows.length === 0) {
+        break;
+      }
+
+      for (const row of rows) {
+        if (toBlock !== null && !rangeEnded && BigInt(row.blockNumber) > BigInt(toBlock)) {
+          // No event within the range - it starts and ends here
+          if (!rangeStarted) {
+            rangeStarted = true;
+            await options.onRangeStart?.();
+          }
+          rangeEnded = true;
+          await options.onRangeEnd?.();
+        }
+        if (!rangeStarted && BigInt(row.blockNumber) >= BigInt(fromBlock)) {
+          rangeStarted = true;
+          await options.onRangeStart?.();
+        }
+
+        await this.normalizedEventProcessor.processEvent(row.source, row, queryRunner);
+      }
+
+      replayedCount += rows.length;
+      lastBlockNumber = rows[rows.length - 1].blockNumber;
+      lastLogIndex = rows[rows.length - 1].logIndex;
+    }
+
+    if (!rangeStarted) {
+      await options.onRangeStart?.();
+    }
+    if (!rangeEnded) {
+      await options.onRangeEnd?.();
+    }
+
+    // The writes below do not belong to an event
+    await queryRunner.query(`SELECT set_config('stfuel.block_number', '', true)`);
+    await queryRunner.manager.getRepository(SyncState).upsert(
+      { key: UNDO_SYNC_KEY, lastBlockNumber: (undoFromBlock - 1).toString() },
+      ['key']
+    );
+
+    // Unlockable redemptions follow the scanner checkpoint, not the replayed events
+    if (mainState) {
+      await this.normalizedEventProcessor.markUnlockableRedemptions(parseInt(mainState.lastBlockNumber), queryRunner);
+    }
+
+    await this.restoreLiveness(queryRunner);
+
+    console.log(`Rebuilt normalized tables from ${replayedCount} raw events`);
+    return replayedCount;
+  }
+
+  /**
+   * Bring the normalized tables back to their state at the end of forkBlock, e.g. after a
+   * chain reorganization. The row changes of the blocks after it are undone from the undo
+   * log, so the cost follows the reorg depth; a fork older than the log falls back to a
+   * rebuild. Expects the scanner checkpoint to be moved back to forkBlock already.
+   */
+  async rollbackTo(queryRunner: QueryRunner, forkBlock: number): Promise<void> {
+    const [undoState] = await queryRunner.query(`SELECT "lastBlockNumber" FROM "sync_state" WHERE "key" = $1`, [UNDO_SYNC_KEY]);
+    if (!undoState || forkBlock < parseInt(undoState.lastBlockNumber)) {
+      console.warn(`Undo log does not reach back to block ${forkBlock}, rebuilding the normalized tables`);
+      await this.rebuild(queryRunner);
+      return;
+    }
+
+    const [{ undone }] = await queryRunner.query(`SELECT "undo_normalized_changes"($1) AS "undone"`, [forkBlock.toString()]);
+
+    // Unlockable redemptions follow the scanner checkpoint, which moved back to the fork
+    await queryRunner.query(
+      `
+      UPDATE "redemption_queue" SET "status" = $1, "unlockTimestamp" = NULL, "updatedAt" = now()
+      WHERE "status" = $2 AND "unlockBlockNumber" > $3
+      `,
+      [RedemptionStatus.PENDING, RedemptionStatus.UNLOCKABLE, forkBlock.toString()]
+    );
+
+    await this.restoreLiveness(queryRunner);
+
+    console.log(`Undid ${undone} normalized row changes after block ${forkBlock}`);
+  }
+
+  /**
+   * Drop undo entries of blocks a reorg can no longer reach
+   */
+  async pruneUndoLog(belowBlock: number, queryRunner?: QueryRunner): Promise<void> {
+    const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
+    await manager.query(`DELETE FROM "normalized_undo_log" WHERE "blockNumber" < $1`, [belowBlock.toString()]);
+  }
+
+  // isLive is owned by the edge node manager sync, not by chain events - restore it
+  private async restoreLiveness(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      UPDATE "edge_nodes" SET "isLive" = "managed_nodes"."isRunning"
+      FROM "managed_nodes"
+      WHERE "managed_nodes"."addressId" = "edge_nodes"."addressId"
+    `);
+  }
+
+  /**
+   * Rebuild the tables and report the rows that differ from their current state. With a
+   * block range, only rows the events of the range touch are reported. Nothing is
+   * committed here - the caller rolls the transaction back.
+   */
+  async dryRun(queryRunner: QueryRunner, options: ReplayOptions = {}): Promise<{ replayedCount: number; changes: NormalizedStateChange[] }> {
+    const before = await this.captureState(queryRunner);
+    const hasRange = options.fromBlock !== undefined || options.toBlock !== undefined;
+
+    const range: { start?: NormalizedState; end?: NormalizedState } = {};
+    const replayedCount = await this.rebuild(queryRunner, {
+      ...options,
+      onRangeStart: hasRange ? async () => { range.start = await this.captureState(queryRunner); } : undefined,
+      onRangeEnd: hasRange ? async () => { range.end = await this.captureState(queryRunner); } : undefined,
+    });
+
+    let changes = this.diffState(before, await this.captureState(queryRunner));
+    if (range.start && range.end) {
+      const touched = new Set(this.diffState(range.start, range.end).map(({ table, key }) => `${table} ${key}`));
+      changes = changes.filter(({ table, key }) => touched.has(`${table} ${key}`));
+    }
+
+    return { replayedCount, changes };
+  }
+
+  async captureState(queryRunner: QueryRunner): Promise<NormalizedState> {
+    const state: NormalizedState = {};
+
+    for (const [table, query] of Object.entries(STATE_QUERIES)) {
+      const rows: { key: string; row: any }[] = await queryRunner.query(query);
+      state[table] = new Map(rows.map(({ key, row }) => [key, row]));
+    }
+
+    return state;
+  }
+
+  /**
+   * Compare two captured states row by row, e.g. before and after a rebuild.
+   */
+  diffState(before: NormalizedState, after: NormalizedState): NormalizedStateChange[] {
+    const changes: NormalizedStateChange[] = [];
+
+    for (const table of Object.keys(STATE_QUERIES)) {
+      const beforeRows = before[table];
+      const afterRows = after[table];
+      const keys = new Set([...beforeRows.keys(), ...afterRows.keys()]);
+
+      for (const key of Array.from(keys).sort()) {
+        const beforeRow = beforeRows.get(key);
+        const afterRow = afterRows.get(key);
+        const fields: NormalizedStateChange['fields'] = {};
+
+        for (const field of new Set([...Object.keys(beforeRow || {}), ...Object.keys(afterRow || {})])) {
+          const beforeValue = beforeRow ? beforeRow[field] ?? null : null;
+          const afterValue = afterRow ? afterRow[field] ?? null : null;
+          if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+            fields[field] = { before: beforeValue, after: afterValue };
+          }
+        }
+
+        if (!beforeRow) {
+          changes.push({ table, key, change: 'added', fields });
+        } else if (!afterRow) {
+          changes.push({ table, key, change: 'removed', fields });
+        } else if (Object.keys(fields).length > 0) {
+          changes.push({ table, key, change: 'changed', fields });
+        }
+      }
+    }
+
+    return changes;
+  }
+}
+
+export default NormalizedReplayService;
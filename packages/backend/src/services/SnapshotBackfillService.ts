@@ -0,0 +1,174 @@
+import { Not } from 'typeorm';
+import { ethers } from 'ethers';
+import AppDataSource from '../database/data-source';
+import { HourlySnapshot } from '../database/entities/HourlySnapshot';
+import { SnapshotBackfillJob, SnapshotBackfillStatus, SnapshotGranularity } from '../database/entities/SnapshotBackfillJob';
+import { ContractManager } from '../contracts/contracts';
+import { getArchiveProviderPool } from '../rpc/RpcProviderPool';
+import { SnapshotService } from './SnapshotService';
+import { SnapshotRollupService } from './SnapshotRollupService';
+import { config } from '../config/environment';
+
+export const GRANULARITY_SECONDS: { [granularity in SnapshotGranularity]: number } = {
+  [SnapshotGranularity.FIFTEEN_MINUTES]: 15 * 60,
+  [SnapshotGranularity.HOUR]: 60 * 60,
+  [SnapshotGranularity.DAY]: 24 * 60 * 60,
+};
+
+interface BlockHeader {
+  number: number;
+  timestamp: number;
+}
+
+/**
+ * Regenerates snapshots of a past time range, one per slot of the chosen granularity,
+ * at the first block at or after each slot. The contract state is read with archive
+ * calls at that block and the event-derived metrics are recomputed from the raw events,
+ * so the range must already be scanned. Each slot is committed together with the job
+ * progress, so an interrupted job resumes at the next slot. Calls go through the
+ * archive provider pool and writes are short transactions, leaving the scanner alone.
+ */
+export class SnapshotBackfillService {
+  private provider: ethers.JsonRpcProvider;
+  private contractManager: ContractManager;
+  private snapshotService: SnapshotService;
+  private snapshotRollupService: SnapshotRollupService;
+
+  constructor() {
+    this.provider = getArchiveProviderPool();
+    this.contractManager = new ContractManager(this.provider);
+    this.snapshotService = new SnapshotService();
+    this.snapshotRollupService = new SnapshotRollupService();
+  }
+
+  /**
+   * Unfinished job of the same range and granularity, or a new one starting at the
+   * first slot boundary of the range
+   */
+  async findOrCreateJob(granularity: SnapshotGranularity, fromTimestamp: number, toTimestamp: number): Promise<SnapshotBackfillJob> {
+    const jobRepo = AppDataSource.getRepository(SnapshotBackfillJob);
+
+    const existing = await jobRepo.findOne({
+      where: { granularity, fromTimestamp, toTimestamp, status: Not(SnapshotBackfillStatus.COMPLETED) },
+      order: { id: 'DESC' },
+    });
+    if (existing) {
+      return existing;
+    }
+
+    const step = GRANULARITY_SECONDS[granularity];
+    return jobRepo.save(jobRepo.create({
+      granularity,
+      fromTimestamp,
+      toTimestamp,
+      nextTimestamp: Math.ceil(fromTimestamp / step) * step,
+      lastBlockNumber: null,
+      snapshotsWritten: 0,
+      status: SnapshotBackfillStatus.RUNNING,
+      lastError: null,
+    }));
+  }
+
+  /**
+   * Write the remaining slots of a job. Slots past the last scanned block are left for
+   * a later run, the job then stays running.
+   */
+  async run(job: SnapshotBackfillJob): Promise<SnapshotBackfillJob> {
+    const jobRepo = AppDataSource.getRepository(SnapshotBackfillJob);
+    const step = GRANULARITY_SECONDS[job.granularity];
+
+    job.status = SnapshotBackfillStatus.RUNNING;
+    job.lastError = null;
+    await jobRepo.save(job);
+
+    try {
+      const [mainState] = await AppDataSource.query(`SELECT "lastBlockNumber" FROM "sync_state" WHERE "key" = 'main'`);
+      if (!mainState) {
+        throw new Error('No scanned blocks yet');
+      }
+
+      const head = await this.getBlockHeader(parseInt(mainState.lastBlockNumber));
+      let low = job.lastBlockNumber !== null ? parseInt(job.lastBlockNumber) : config.startBlock;
+
+      while (job.nextTimestamp <= job.toTimestamp) {
+        if (job.nextTimestamp > head.timestamp) {
+          console.log(`Snapshot backfill ${job.id}: slot ${job.nextTimestamp} is past the last scanned block ${head.number}, resume once it is scanned`);
+          return job;
+        }
+
+        const block = await this.findFirstBlockAtOrAfter(job.nextTimestamp, low, head);
+        const state = await this.contractManager.getStateAtBlock(block.number);
+        const snapshot = await this.snapshotService.buildSnapshotAt(block.number, block.timestamp, state);
+
+        const progress = {
+          nextTimestamp: job.nextTimestamp + step,
+          lastBlockNumber: block.number.toString(),
+          snapshotsWritten: job.snapshotsWritten + 1,
+        };
+        await this.writeSlot(job, snapshot, progress);
+        Object.assign(job, progress);
+
+        low = block.number;
+        console.log(`Snapshot backfill ${job.id}: wrote snapshot at block ${block.number} (${new Date(block.timestamp * 1000).toISOString()})`);
+      }
+
+      job.status = SnapshotBackfillStatus.COMPLETED;
+      return await jobRepo.save(job);
+    } catch (error: any) {
+      console.error(`Snapshot backfill ${job.id} failed at slot ${job.nextTimestamp}:`, error.message);
+      job.status = SnapshotBackfillStatus.FAILED;
+      job.lastError = error.message;
+      return await jobRepo.save(job);
+    }
+  }
+
+  // Snapshot, its rollups and the job progress are committed together
+  private async writeSlot(job: SnapshotBackfillJob, snapshot: HourlySnapshot, progress: Partial<SnapshotBackfillJob>): Promise<void> {
+    const queryRunner = AppDataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      await queryRunner.manager.getRepository(HourlySnapshot).save(snapshot);
+      await this.snapshotRollupService.refresh(snapshot.snapshotTimestamp, snapshot.snapshotTimestamp, queryRunner);
+      await queryRunner.manager.getRepository(SnapshotBackfillJob).update(job.id, progress);
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  // Binary search between a block before the slot and the scanned head (at or after it)
+  private async findFirstBlockAtOrAfter(timestamp: number, low: number, head: BlockHeader): Promise<BlockHeader> {
+    let lowBlock = await this.getBlockHeader(low);
+    if (lowBlock.timestamp >= timestamp) {
+      return lowBlock;
+    }
+
+    let highBlock = head;
+    while (highBlock.number - lowBlock.number > 1) {
+      const middle = await this.getBlockHeader(Math.floor((lowBlock.number + highBlock.number) / 2));
+      if (middle.timestamp >= timestamp) {
+        highBlock = middle;
+      } else {
+        lowBlock = middle;
+      }
+    }
+
+    return highBlock;
+  }
+
+  private async getBlockHeader(blockNumber: number): Promise<BlockHeader> {
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block) {
+      throw new Error(`Block ${blockNumber} not found`);
+    }
+
+    return { number: block.number, timestamp: block.timestamp };
+  }
+}
+
+export default SnapshotBackfillService;
@@ -0,0 +1,209 @@
+import { QueryRunner } from 'typeorm';
+import AppDataSource from '../database/data-source';
+import { SnapshotMetrics } from '../database/entities/SnapshotMetrics';
+import { ContractHandler } from '../contracts/registry';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const METRICS_KEY = 'current';
+
+// Event-derived metrics stored with each hourly snapshot
+export interface SnapshotMetricValues {
+  tfuelStakedAmount: bigint;
+  stfuelTotalSupply: bigint;
+  currentHoldersCount: number;
+  historicalHoldersCount: number;
+  totalReferralRewards: bigint;
+  edgeNodesCount: number;
+  totalKeeperTipsPaid: bigint;
+}
+
+export const SNAPSHOT_METRIC_NAMES: (keyof SnapshotMetricValues)[] = [
+  'tfuelStakedAmount',
+  'stfuelTotalSupply',
+  'currentHoldersCount',
+  'historicalHoldersCount',
+  'totalReferralRewards',
+  'edgeNodesCount',
+  'totalKeeperTipsPaid',
+];
+
+export interface SnapshotMetricDrift {
+  metric: keyof SnapshotMetricValues;
+  running: string;
+  recomputed: string;
+}
+
+type MetricDeltas = { [metric in keyof SnapshotMetricValues]?: bigint };
+
+/**
+ * Metrics whose running total differs from the full recomputation
+ */
+export function diffSnapshotMetrics(running: SnapshotMetricValues, recomputed: SnapshotMetricValues): SnapshotMetricDrift[] {
+  return SNAPSHOT_METRIC_NAMES
+    .filter(metric => running[metric].toString() !== recomputed[metric].toString())
+    .map(metric => ({ metric, running: running[metric].toString(), recomputed: recomputed[metric].toString() }));
+}
+
+/**
+ * Keeps the event-derived snapshot metrics as running totals in snapshot_metrics.
+ * The totals move with every applied event, inside the savepoint of that event, so a
+ * snapshot reads one row instead of replaying all events since genesis. Holder and
+ * edge node counts follow the balances of the users and edge_nodes tables.
+ */
+export class SnapshotMetricsService {
+  async applyEvent(handler: ContractHandler, event: any, queryRunner?: QueryRunner): Promise<void> {
+    let deltas: MetricDeltas = {};
+    if (handler === 'nodeManager') {
+      deltas = await this.nodeManagerDeltas(event, queryRunner);
+    } else if (handler === 'stfuel') {
+      deltas = await this.stfuelDeltas(event, queryRunner);
+    }
+
+    await this.addDeltas(deltas, queryRunner);
+  }
+
+  async getMetrics(queryRunner?: QueryRunner): Promise<SnapshotMetricValues> {
+    const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
+    const metrics = await manager.getRepository(SnapshotMetrics).findOne({ where: { key: METRICS_KEY } });
+
+    const stfuelTotalSupply = BigInt(metrics?.stfuelTotalSupply ?? '0');
+    if (stfuelTotalSupply < BigInt(0)) {
+      console.error(`⚠️  WARNING: Running sTFuel total supply is negative: ${stfuelTotalSupply.toString()}, using 0`);
+    }
+
+    return {
+      tfuelStakedAmount: BigInt(metrics?.tfuelStakedAmount ?? '0'),
+      stfuelTotalSupply: stfuelTotalSupply < BigInt(0) ? BigInt(0) : stfuelTotalSupply,
+      currentHoldersCount: metrics?.currentHoldersCount ?? 0,
+      historicalHoldersCount: metrics?.historicalHoldersCount ?? 0,
+      totalReferralRewards: BigInt(metrics?.totalReferralRewards ?? '0'),
+      edgeNodesCount: metrics?.edgeNodesCount ?? 0,
+      totalKeeperTipsPaid: BigInt(metrics?.totalKeeperTipsPaid ?? '0'),
+    };
+  }
+
+  private async nodeManagerDeltas(event: any, queryRunner?: QueryRunner): Promise<MetricDeltas> {
+    const args = event.args || {};
+
+    switch (event.eventName) {
+      case 'TFuelStaked':
+      case 'TFuelUnstaked': {
+        if (!args.node || !args.amount) return {};
+        const amount = event.eventName === 'TFuelStaked' ? BigInt(args.amount) : -BigInt(args.amount);
+        return {
+          tfuelStakedAmount: amount,
+          edgeNodesCount: await this.edgeNodeCountDelta(args.node, amount, queryRunner),
+        };
+      }
+      // KeeperPaid args are canonicalized to the KeeperCredited shape
+      case 'KeeperPaid':
+      case 'KeeperCredited':
+        return args.tipCredited ? { totalKeeperTipsPaid: BigInt(args.tipCredited) } : {};
+      default:
+        return {};
+    }
+  }
+
+  private async stfuelDeltas(event: any, queryRunner?: QueryRunner): Promise<MetricDeltas> {
+    const args = event.args || {};
+
+    switch (event.eventName) {
+      case 'Transfer':
+        return this.holderDeltas(event, queryRunner);
+      case 'Minted':
+        return args.sharesOut ? { stfuelTotalSupply: BigInt(args.sharesOut) } : {};
+      case 'ReferralRewarded':
+        return args.rewardShares
+          ? { stfuelTotalSupply: BigInt(args.rewardShares), totalReferralRewards: BigInt(args.rewardShares) }
+          : {};
+      case 'BurnQueued':
+      case 'BurnAndDirectRedeemed':
+        return args.sharesBurned ? { stfuelTotalSupply: -BigInt(args.sharesBurned) } : {};
+      default:
+        return {};
+    }
+  }
+
+  // Holder count changes of a Transfer, from the balances the Transfer handler just updated
+  private async holderDeltas(event: any, queryRunner?: QueryRunner): Promise<MetricDeltas> {
+    const from = event.args?.from?.toLowerCase();
+    const to = event.args?.to?.toLowerCase();
+    const value = event.args?.value;
+    if (!from || !to || !value) return {};
+
+    const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
+    const deltas = { currentHoldersCount: BigInt(0), historicalHoldersCount: BigInt(0) };
+
+    // A transfer to self leaves the balance unchanged
+    const sides = from === to
+      ? [{ address: from, change: BigInt(0) }]
+      : [{ address: from, change: -BigInt(value) }, { address: to, change: BigInt(value) }];
+
+    for (const { address, change } of sides) {
+      if (address === ZERO_ADDRESS) continue;
+
+      const [user] = await manager.query(
+        `
+        SELECT "u"."id", "u"."stfuelBalance", "u"."firstTransferBlock"
+        FROM "users" "u" JOIN "addresses" "a" ON "a"."id" = "u"."addressId"
+        WHERE "a"."address" = $1
+        `,
+        [address]
+      );
+      if (!user) continue;
+
+      const after = BigInt(user.stfuelBalance);
+      const before = after - change;
+      deltas.currentHoldersCount += BigInt(after > BigInt(0) ? 1 : 0) - BigInt(before > BigInt(0) ? 1 : 0);
+
+      if (user.firstTransferBlock === null) {
+        await manager.query(`UPDATE "users" SET "firstTransferBlock" = $1 WHERE "id" = $2`, [event.blockNumber.toString(), user.id]);
+        deltas.historicalHoldersCount += BigInt(1);
+      }
+    }
+
+    return deltas;
+  }
+
+  // Edge node count change of a stake or unstake, from the totals the handler just updated
+  private async edgeNodeCountDelta(nodeAddress: string, amount: bigint, queryRunner?: QueryRunner): Promise<bigint> {
+    const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
+    const [edgeNode] = await manager.query(
+      `
+      SELECT "n"."totalStaked", "n"."totalUnstaked"
+      FROM "edge_nodes" "n" JOIN "addresses" "a" ON "a"."id" = "n"."addressId"
+      WHERE "a"."address" = $1
+      `,
+      [nodeAddress.toLowerCase()]
+    );
+    if (!edgeNode) return BigInt(0);
+
+    const after = BigInt(edgeNode.totalStaked) - BigInt(edgeNode.totalUnstaked);
+    const before = after - amount;
+    return BigInt(after > BigInt(0) ? 1 : 0) - BigInt(before > BigInt(0) ? 1 : 0);
+  }
+
+  private async addDeltas(deltas: MetricDeltas, queryRunner?: QueryRunner): Promise<void> {
+    if (!SNAPSHOT_METRIC_NAMES.some(metric => deltas[metric] && deltas[metric] !== BigInt(0))) {
+      return;
+    }
+
+    const manager = queryRunner ? queryRunner.manager : AppDataSource.manager;
+    const columns = SNAPSHOT_METRIC_NAMES.map(metric => `"${metric}"`).join(', ');
+    const placeholders = SNAPSHOT_METRIC_NAMES.map((_, index) => `$${index + 2}`).join(', ');
+    const updates = SNAPSHOT_METRIC_NAMES
+      .map(metric => `"${metric}" = "snapshot_metrics"."${metric}" + EXCLUDED."${metric}"`)
+      .join(', ');
+
+    // The row is missing after the normalized tables were truncated for a rebuild
+    await manager.query(
+      `
+      INSERT INTO "snapshot_metrics" ("key", ${columns}) VALUES ($1, ${placeholders})
+      ON CONFLICT ("key") DO UPDATE SET ${updates}, "updatedAt" = now()
+      `,
+      [METRICS_KEY, ...SNAPSHOT_METRIC_NAMES.map(metric => (deltas[metric] ?? BigInt(0)).toString())]
+    );
+  }
+}
+
+export default SnapshotMetricsService;
@@ -0,0 +1,101 @@
+import { QueryRunner } from 'typeorm';
+import AppDataSource from '../database/data-source';
+import { SnapshotResolution } from '../database/entities/SnapshotRollup';
+
+// Exchange rate of a snapshot scaled by 1e18 - the on-chain pps or ppsSafe where it was read
+export const SNAPSHOT_RATE = `COALESCE("pps", "ppsSafe", CASE WHEN "stfuelTotalSupply" > 0 THEN TRUNC("tfuelBackingAmount" * 1000000000000000000 / "stfuelTotalSupply") END)`;
+
+const open = (column: string) => `(array_agg("${column}" ORDER BY "snapshotTimestamp" ASC, "blockNumber" ASC))[1]`;
+const close = (column: string) => `(array_agg("${column}" ORDER BY "snapshotTimestamp" DESC, "blockNumber" DESC))[1]`;
+
+// Rollups of the snapshots within [$2, $3) for resolution $1, one row per period
+const INSERT_ROLLUPS = `
+  INSERT INTO "snapshot_rollups" (
+    "resolution", "periodStart", "periodEnd", "snapshotCount", "openBlockNumber", "closeBlockNumber",
+    "openRate", "closeRate", "minRate", "maxRate", "openSupply", "closeSupply", "minSupply", "maxSupply",
+    "tfuelBackingAmount", "tfuelStakedAmount", "currentHoldersCount", "historicalHoldersCount",
+    "totalReferralRewards", "edgeNodesCount", "totalKeeperTipsPaid"
+  )
+  SELECT
+    $1,
+    EXTRACT(EPOCH FROM "period")::integer,
+    EXTRACT(EPOCH FROM "period" + ('1 ' || $1)::interval)::integer,
+    COUNT(*),
+    ${open('blockNumber')},
+    ${close('blockNumber')},
+    ${open('rate')},
+    ${close('rate')},
+    MIN("rate"),
+    MAX("rate"),
+    ${open('stfuelTotalSupply')},
+    ${close('stfuelTotalSupply')},
+    MIN("stfuelTotalSupply"),
+    MAX("stfuelTotalSupply"),
+    ${close('tfuelBackingAmount')},
+    ${close('tfuelStakedAmount')},
+    ${close('currentHoldersCount')},
+    ${close('historicalHoldersCount')},
+    ${close('totalReferralRewards')},
+    ${close('edgeNodesCount')},
+    ${close('totalKeeperTipsPaid')}
+  FROM (
+    SELECT *,
+           date_trunc($1, to_timestamp("snapshotTimestamp") AT TIME ZONE 'UTC') AS "period",
+           ${SNAPSHOT_RATE} AS "rate"
+    FROM "hourly_snapshots"
+    WHERE "snapshotTimestamp" >= $2 AND "snapshotTimestamp" < $3
+  ) AS "snapshot"
+  GROUP BY "period"
+`;
+
+/**
+ * Maintains the hourly, daily, weekly and monthly rollups of the snapshots. A refresh
+ * recomputes every period touching the given time range from its stored snapshots, so
+ * snapshots that are added, replaced (backfill, recalculation) or removed (reorg) are
+ * all covered the same way. A period holds at most a month of snapshots, which keeps
+ * a refresh to a few milliseconds.
+ */
+export class SnapshotRollupService {
+  async refresh(fromTimestamp: number, toTimestamp: number = fromTimestamp, queryRunner?: QueryRunner): Promise<void> {
+    if (queryRunner) {
+      await this.refreshPeriods(fromTimestamp, toTimestamp, queryRunner);
+      return;
+    }
+
+    // Periods are replaced as a whole, readers must not see them half-way
+    const ownQueryRunner = AppDataSource.createQueryRunner();
+    await ownQueryRunner.connect();
+    await ownQueryRunner.startTransaction();
+
+    try {
+      await this.refreshPeriods(fromTimestamp, toTimestamp, ownQueryRunner);
+      await ownQueryRunner.commitTransaction();
+    } catch (error) {
+      await ownQueryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await ownQueryRunner.release();
+    }
+  }
+
+  private async refreshPeriods(fromTimestamp: number, toTimestamp: number, queryRunner: QueryRunner): Promise<void> {
+    for (const resolution of Object.values(SnapshotResolution)) {
+      // Widen the range to whole periods of this resolution
+      const [range] = await queryRunner.query(
+        `
+        SELECT EXTRACT(EPOCH FROM date_trunc($1, to_timestamp($2) AT TIME ZONE 'UTC'))::integer AS "periodStart",
+               EXTRACT(EPOCH FROM date_trunc($1, to_timestamp($3) AT TIME ZONE 'UTC') + ('1 ' || $1)::interval)::integer AS "periodEnd"
+        `,
+        [resolution, fromTimestamp, toTimestamp]
+      );
+
+      await queryRunner.query(
+        `DELETE FROM "snapshot_rollups" WHERE "resolution" = $1 AND "periodStart" >= $2 AND "periodStart" < $3`,
+        [resolution, range.periodStart, range.periodEnd]
+      );
+      await queryRunner.query(INSERT_ROLLUPS, [resolution, range.periodStart, range.periodEnd]);
+    }
+  }
+}
+
+export default SnapshotRollupService;
@@ -8,7 +8,10 @@ import { ManagedNode } from '../database/entities/ManagedNode';
 import { EdgeNode } from '../database/entities/EdgeNode';
 import { Address } from '../database/entities/Address';
 import { ContractManager } from '../contracts/contracts';
-import { EdgeNodeManagerService, NodeStatus } from './EdgeNodeManagerService';
+import { EdgeNodeManagerService, NodeStatus, NodeListItem } from './EdgeNodeManagerService';
+import { SnapshotMetricsService, SnapshotMetricValues, SnapshotMetricDrift, diffSnapshotMetrics } from './SnapshotMetricsService';
+import { SnapshotRollupService } from './SnapshotRollupService';
+import { config } from '../config/environment';
 
 export class SnapshotService {
   private snapshotRepo: Repository<HourlySnapshot>;
@@ -16,6 +19,8 @@ export class SnapshotService {
   private stfuelEventRepo: Repository<StfuelEvent>;
   private contractManager: ContractManager;
   private edgeNodeManagerService: EdgeNodeManagerService;
+  private snapshotMetricsService: SnapshotMetricsService;
+  private snapshotRollupService: SnapshotRollupService;
   private nextSnapshotTime: number | null = null; // Unix timestamp of next snapshot
 
   constructor() {
@@ -24,16 +29,28 @@ export class SnapshotService {
     this.stfuelEventRepo = AppDataSource.getRepository(StfuelEvent);
     this.contractManager = new ContractManager();
     this.edgeNodeManagerService = new EdgeNodeManagerService();
+    this.snapshotMetricsService = new SnapshotMetricsService();
+    this.snapshotRollupService = new SnapshotRollupService();
   }
 
-  async checkAndCreateSnapshot(blockNumber: number, blockTimestamp: number): Promise<void> {
+  /**
+   * Unix timestamp from which the next snapshot is due. Lets the scanner find the
+   * blocks crossing a snapshot boundary without fetching every block header.
+   */
+  async ensureNextSnapshotTime(blockTimestamp: number): Promise<number> {
     // If we don't have the next snapshot time set, initialize it
     if (this.nextSnapshotTime === null) {
       await this.initializeNextSnapshotTime(blockTimestamp);
     }
 
+    return this.nextSnapshotTime!;
+  }
+
+  async checkAndCreateSnapshot(blockNumber: number, blockTimestamp: number): Promise<void> {
+    const nextSnapshotTime = await this.ensureNextSnapshotTime(blockTimestamp);
+
     // Check if it's time for a snapshot
-    if (blockTimestamp >= this.nextSnapshotTime!) {
+    if (blockTimestamp >= nextSnapshotTime) {
       console.log(`Creating snapshot for block ${blockNumber} at timestamp ${blockTimestamp}`);
       
       await this.createSnapshot(blockNumber, blockTimestamp);
@@ -87,17 +104,30 @@ export class SnapshotService {
     try {
       console.log(`Creating snapshot for block ${blockNumber} at timestamp ${timestamp}`);
 
-      // Calculate all metrics from events
-      const metrics = await this.calculateMetrics(blockNumber);
+      // Running totals of the events applied so far, including those of this block - a
+      // snapshot describes the end of its block, like the contract reads at this block
+      const metrics = await this.snapshotMetricsService.getMetrics();
+
+      if (config.snapshotVerifyMetrics) {
+        await this.verifyMetrics(blockNumber, metrics);
+      }
 
       // For TFuel backing amount, check if we're live or use CurrentNetAssets events
       let tfuelBackingAmount: bigint;
+      // Exact on-chain exchange rates, only read while live - the backfill fills in past blocks
+      let rates: { pps: bigint | null; ppsSafe: bigint | null } = { pps: null, ppsSafe: null };
       try {
         // Check if we're at the latest block (within 10 blocks of current)
         const latestBlock = await this.contractManager.getProvider().getBlockNumber();
         const isLive = (latestBlock - blockNumber) <= 10;
         
         if (isLive) {
+          try {
+            rates = await this.contractManager.getExchangeRates(blockNumber);
+          } catch (error: any) {
+            console.warn(`Exchange rates unavailable for block ${blockNumber}:`, error.message);
+          }
+
           // Use contract calls for live data
           try {
             tfuelBackingAmount = await this.contractManager.getTfuelBackingAmount(blockNumber, true);
@@ -132,10 +162,14 @@ export class SnapshotService {
       snapshot.totalReferralRewards = metrics.totalReferralRewards.toString();
       snapshot.edgeNodesCount = metrics.edgeNodesCount;
       snapshot.totalKeeperTipsPaid = metrics.totalKeeperTipsPaid.toString();
+      snapshot.pps = rates.pps?.toString() ?? null;
+      snapshot.ppsSafe = rates.ppsSafe?.toString() ?? null;
 
       await this.snapshotRepo.save(snapshot);
       console.log(`Snapshot created for block ${blockNumber}`);
 
+      await this.snapshotRollupService.refresh(timestamp);
+
       // Update node statuses from Edge Node Manager API
       await this.updateNodeStatuses();
 
@@ -144,15 +178,25 @@ export class SnapshotService {
     }
   }
 
-  private async calculateMetrics(blockNumber: number): Promise<{
-    tfuelStakedAmount: bigint;
-    stfuelTotalSupply: bigint;
-    currentHoldersCount: number;
-    historicalHoldersCount: number;
-    totalReferralRewards: bigint;
-    edgeNodesCount: number;
-    totalKeeperTipsPaid: bigint;
-  }> {
+  /**
+   * Recompute the metrics from all raw events up to the block and log every metric
+   * whose running total differs. The running totals must cover exactly the raw events
+   * stored up to the block, as they do when a snapshot is created.
+   */
+  async verifyMetrics(blockNumber: number, running?: SnapshotMetricValues): Promise<SnapshotMetricDrift[]> {
+    const runningMetrics = running ?? await this.snapshotMetricsService.getMetrics();
+    const recomputed = await this.calculateMetrics(blockNumber);
+
+    const drift = diffSnapshotMetrics(runningMetrics, recomputed);
+    for (const { metric, running: runningValue, recomputed: recomputedValue } of drift) {
+      console.error(`⚠️  Snapshot metric ${metric} drifted at block ${blockNumber}: running ${runningValue}, recomputed ${recomputedValue}`);
+    }
+
+    return drift;
+  }
+
+  // Full recomputation from the raw events - slow, used for verification and rebuilds
+  private async calculateMetrics(blockNumber: number): Promise<SnapshotMetricValues> {
     try {
       // Calculate TFuel staked amount: Σ(TFuelStaked.amount) - Σ(TFuelUnstaked.amount)
       const tfuelStakedAmount = await this.calculateTfuelStakedAmount(blockNumber);
@@ -172,7 +216,7 @@ export class SnapshotService {
       // Calculate edge nodes count: COUNT(nodes WHERE stakedTFuel > 0)
       const edgeNodesCount = await this.calculateEdgeNodesCount(blockNumber);
 
-      // Calculate total keeper tips paid: Σ(KeeperPaid.tipPaid)
+      // Calculate total keeper tips paid: Σ(KeeperPaid.tipCredited + KeeperCredited.tipCredited)
       const totalKeeperTipsPaid = await this.calculateTotalKeeperTipsPaid(blockNumber);
 
       return {
@@ -520,23 +564,24 @@ export class SnapshotService {
     }
   }
 
-  // Calculate total keeper tips paid: Σ(KeeperPaid.tipPaid)
+  // Calculate total keeper tips paid: Σ(KeeperPaid.tipCredited + KeeperCredited.tipCredited)
+  // Both event versions share the canonical KeeperCredited arg shape
   private async calculateTotalKeeperTipsPaid(blockNumber: number): Promise<bigint> {
     try {
-      const keeperPaidEvents = await this.nodeManagerEventRepo
+      const keeperTipEvents = await this.nodeManagerEventRepo
         .createQueryBuilder('event')
-        .where('event.eventName = :eventName', { eventName: 'KeeperPaid' })
+        .where('event.eventName IN (:...eventNames)', { eventNames: ['KeeperPaid', 'KeeperCredited'] })
         .andWhere('CAST(event.blockNumber AS bigint) <= :blockNumber', { blockNumber: blockNumber.toString() })
         .getMany();
 
       let totalKeeperTipsPaid = BigInt(0);
-      for (const event of keeperPaidEvents) {
-        if (event.args && event.args.tipPaid) {
+      for (const event of keeperTipEvents) {
+        if (event.args && event.args.tipCredited) {
           try {
-            const tipPaid = BigInt(event.args.tipPaid);
-            totalKeeperTipsPaid += tipPaid;
+            const tipCredited = BigInt(event.args.tipCredited);
+            totalKeeperTipsPaid += tipCredited;
           } catch (error) {
-            console.warn('Failed to parse tipPaid from KeeperPaid event:', event.id, error);
+            console.warn(`Failed to parse tipCredited from ${event.eventName} event:`, event.id, error);
           }
         }
       }
@@ -617,6 +662,60 @@ export class SnapshotService {
     return this.nextSnapshotTime;
   }
 
+  /**
+   * Recompute the event-derived metrics of a stored snapshot at its block. The TFuel
+   * backing amount is kept, since live snapshots read it from the contract.
+   */
+  async recalculateSnapshot(snapshot: HourlySnapshot): Promise<HourlySnapshot> {
+    const metrics = await this.calculateMetrics(parseInt(snapshot.blockNumber));
+
+    const recalculated = this.snapshotRepo.create({ ...snapshot });
+    recalculated.tfuelStakedAmount = metrics.tfuelStakedAmount.toString();
+    recalculated.stfuelTotalSupply = metrics.stfuelTotalSupply.toString();
+    recalculated.currentHoldersCount = metrics.currentHoldersCount;
+    recalculated.historicalHoldersCount = metrics.historicalHoldersCount;
+    recalculated.totalReferralRewards = metrics.totalReferralRewards.toString();
+    recalculated.edgeNodesCount = metrics.edgeNodesCount;
+    recalculated.totalKeeperTipsPaid = metrics.totalKeeperTipsPaid.toString();
+
+    return recalculated;
+  }
+
+  /**
+   * Snapshot at a past block from the contract state read at that block and the
+   * metrics recomputed from the raw events up to it. Replaces the snapshot stored for
+   * the same block, e.g. the live snapshot of an hour boundary.
+   */
+  async buildSnapshotAt(
+    blockNumber: number,
+    timestamp: number,
+    state: { tfuelBackingAmount: bigint; stfuelTotalSupply: bigint; pps: bigint | null; ppsSafe: bigint | null }
+  ): Promise<HourlySnapshot> {
+    const metrics = await this.calculateMetrics(blockNumber);
+    const existing = await this.snapshotRepo.findOne({ where: { blockNumber: blockNumber.toString() } });
+
+    const snapshot = existing || new HourlySnapshot();
+    snapshot.blockNumber = blockNumber.toString();
+    snapshot.snapshotTimestamp = timestamp;
+    snapshot.tfuelBackingAmount = state.tfuelBackingAmount.toString();
+    snapshot.tfuelStakedAmount = metrics.tfuelStakedAmount.toString();
+    snapshot.stfuelTotalSupply = state.stfuelTotalSupply.toString();
+    snapshot.currentHoldersCount = metrics.currentHoldersCount;
+    snapshot.historicalHoldersCount = metrics.historicalHoldersCount;
+    snapshot.totalReferralRewards = metrics.totalReferralRewards.toString();
+    snapshot.edgeNodesCount = metrics.edgeNodesCount;
+    snapshot.totalKeeperTipsPaid = metrics.totalKeeperTipsPaid.toString();
+    snapshot.pps = state.pps?.toString() ?? null;
+    snapshot.ppsSafe = state.ppsSafe?.toString() ?? null;
+
+    return snapshot;
+  }
+
+  // Force the schedule to be re-derived from the latest stored snapshot (e.g. after a reorg rollback)
+  resetSnapshotSchedule(): void {
+    this.nextSnapshotTime = null;
+  }
+
   private normalizeAddress(rawAddress?: string | null): string | null {
     if (!rawAddress) return null;
     const address = rawAddress.toLowerCase();
@@ -0,0 +1,131 @@
+import { ethers } from 'ethers';
+import AppDataSource from '../database/data-source';
+import { HourlySnapshot } from '../database/entities/HourlySnapshot';
+
+const ONE = BigInt('1000000000000000000');
+const YEAR_SECONDS = BigInt(365 * 24 * 60 * 60);
+const COMPOUNDING_PERIODS = 365;
+
+// Exchange rate of a snapshot scaled by 1e18 - only the on-chain pps or ppsSafe
+const RATE = `COALESCE("snapshot"."pps", "snapshot"."ppsSafe")`;
+
+// Trailing windows in seconds; inception starts at the first snapshot with a rate
+export const YIELD_WINDOWS: { [window: string]: number | null } = {
+  '7d': 7 * 24 * 60 * 60,
+  '30d': 30 * 24 * 60 * 60,
+  '90d': 90 * 24 * 60 * 60,
+  inception: null,
+};
+
+export interface YieldWindow {
+  window: string;
+  // Percent with 6 decimals, null without enough history
+  apr: string | null;
+  apy: string | null;
+  elapsedSeconds: number | null;
+  // Snapshots with a rate between the start and end snapshot, both included
+  dataPoints: number;
+  startSnapshot: HourlySnapshot | null;
+  endSnapshot: HourlySnapshot | null;
+}
+
+/**
+ * Yield of sTFuel from the exchange rate growth between two snapshots, computed with
+ * bigint math on the exact pps (or ppsSafe) read on-chain, so every client shows the
+ * same figure. Snapshots without an on-chain rate, e.g. those taken while the scanner
+ * caught up, are skipped rather than approximated from backing / supply.
+ */
+export class YieldService {
+  private snapshotRepo = AppDataSource.getRepository(HourlySnapshot);
+
+  async getYields(): Promise<YieldWindow[]> {
+    const endSnapshot = await this.ratedSnapshots()
+      .orderBy('snapshot.snapshotTimestamp', 'DESC')
+      .addOrderBy('snapshot.blockNumber', 'DESC')
+      .getOne();
+
+    return Promise.all(
+      Object.entries(YIELD_WINDOWS).map(([window, seconds]) => this.getYield(window, seconds, endSnapshot))
+    );
+  }
+
+  private async getYield(window: string, seconds: number | null, endSnapshot: HourlySnapshot | null): Promise<YieldWindow> {
+    const empty = { window, apr: null, apy: null, elapsedSeconds: null, dataPoints: 0, startSnapshot: null, endSnapshot };
+    if (!endSnapshot) {
+      return empty;
+    }
+
+    // Latest snapshot at least a full window before the end, so the window is never shorter
+    const startSnapshot = seconds === null
+      ? await this.ratedSnapshots()
+        .orderBy('snapshot.snapshotTimestamp', 'ASC')
+        .addOrderBy('snapshot.blockNumber', 'ASC')
+        .getOne()
+      : await this.ratedSnapshots()
+        .andWhere('snapshot.snapshotTimestamp <= :timestamp', { timestamp: endSnapshot.snapshotTimestamp - seconds })
+        .orderBy('snapshot.snapshotTimestamp', 'DESC')
+        .addOrderBy('snapshot.blockNumber', 'DESC')
+        .getOne();
+
+    const elapsedSeconds = startSnapshot ? endSnapshot.snapshotTimestamp - startSnapshot.snapshotTimestamp : 0;
+    if (!startSnapshot || elapsedSeconds <= 0) {
+      return empty;
+    }
+
+    const dataPoints = await this.ratedSnapshots()
+      .andWhere('snapshot.snapshotTimestamp BETWEEN :from AND :to', {
+        from: startSnapshot.snapshotTimestamp,
+        to: endSnapshot.snapshotTimestamp,
+      })
+      .getCount();
+
+    const startRate = this.getRate(startSnapshot);
+    const endRate = this.getRate(endSnapshot);
+    const apr = ((endRate - startRate) * ONE * YEAR_SECONDS) / (startRate * BigInt(elapsedSeconds));
+
+    return {
+      window,
+      apr: this.formatPercent(apr),
+      apy: this.formatPercent(this.compound(apr)),
+      elapsedSeconds,
+      dataPoints,
+      startSnapshot,
+      endSnapshot,
+    };
+  }
+
+  private ratedSnapshots() {
+    return this.snapshotRepo
+      .createQueryBuilder('snapshot')
+      .where(`${RATE} > 0`);
+  }
+
+  private getRate(snapshot: HourlySnapshot): bigint {
+    return BigInt((snapshot.pps ?? snapshot.ppsSafe)!);
+  }
+
+  // (1 + apr / 365) ^ 365 - 1 in 1e18 fixed point, by repeated squaring
+  private compound(apr: bigint): bigint {
+    let base = ONE + apr / BigInt(COMPOUNDING_PERIODS);
+    if (base <= BigInt(0)) {
+      return -ONE;
+    }
+
+    let result = ONE;
+    for (let exponent = COMPOUNDING_PERIODS; exponent > 0; exponent >>= 1) {
+      if (exponent & 1) {
+        result = (result * base) / ONE;
+      }
+      base = (base * base) / ONE;
+    }
+
+    return result - ONE;
+  }
+
+  // 1e18-scaled fraction as a percent string with up to 6 decimals
+  private formatPercent(value: bigint): string {
+    return ethers.formatUnits((value * BigInt(100)) / BigInt(1000000000000), 6);
+  }
+}
+
+export default YieldService;
@@ -6,6 +6,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useContract } from '@/hooks/useContract';
 import { useAPR } from '@/hooks/useAPR';
 import { useBlockchainData } from '@/hooks/useBlockchainData';
+import { GET_PROTOCOL_CONFIG, ProtocolConfigData } from '@/graphql/queries';
 import StatsCard from '@/components/StatsCard';
 import TransactionConfirmationModal from '@/components/TransactionConfirmationModal';
 import { formatTFuel, formatTFuelBigInt, formatNumber, calculateExchangeRate, parseTFuel } from '@/lib/formatters';
@@ -16,7 +17,6 @@ function HomeContent() {
   const { 
     mint, 
     getPPS, 
-    getMintFeeBps,
     showConfirmation,
     pendingTransaction,
     handleTransactionConfirm,
@@ -31,7 +31,6 @@ function HomeContent() {
   
   // Use transaction execution state from useContract hook
   const mintLoading = isTransactionExecuting('mint');
-  const [mintFeeBps, setMintFeeBps] = useState<number>(20); // Default 0.2%
   const [exchangeRate, setExchangeRate] = useState<number>(1);
   const [wasMinting, setWasMinting] = useState(false);
 
@@ -58,21 +57,12 @@ function HomeContent() {
   }, [blockchainData.exchangeRate]);
   
 
-  // Load contract data for fees
-  useEffect(() => {
-    const loadContractData = async () => {
-      try {
-        const feeBps = await getMintFeeBps();
-        if (feeBps) {
-          setMintFeeBps(Number(feeBps));
-        }
-      } catch (error) {
-        console.error('Error loading contract data:', error);
-      }
-    };
+  // Mint fee from the indexed protocol configuration
+  const { data: protocolConfigData } = useQuery<ProtocolConfigData>(GET_PROTOCOL_CONFIG, {
+    fetchPolicy: 'cache-and-network',
+  });
 
-    loadContractData();
-  }, []);
+  const mintFeeBps = Number(protocolConfigData?.protocolConfig?.mintFeeBps?.value ?? 20); // Default 0.2%
 
   const handleMint = async () => {
     if (!user?.isConnected) {
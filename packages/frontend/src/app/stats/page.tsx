@@ -1,19 +1,21 @@
 'use client';
 import { useState, useRef, useMemo } from 'react';
 import { useQuery } from '@apollo/client/react';
-import { GET_HOURLY_SNAPSHOTS, GET_DAILY_SNAPSHOTS, GET_EDGE_NODES, GET_USERS } from '@/graphql/queries';
+import { ethers } from 'ethers';
+import { GET_SNAPSHOTS, SnapshotsData, GET_EDGE_NODES, GET_USERS, GET_NODE_INCIDENTS, NodeIncidentsData } from '@/graphql/queries';
 import StatsCard from '@/components/StatsCard';
-import { formatTFuel, formatTFuelBigInt, formatNumber, formatAddress, formatDate, parseTimestamp, calculateNetStaked } from '@/lib/formatters';
+import { formatTFuel, formatTFuelBigInt, formatNumber, formatAddress, formatDate, formatDuration, parseTimestamp, calculateNetStaked } from '@/lib/formatters';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { useAPR } from '@/hooks/useAPR';
 import { useBlockchainData } from '@/hooks/useBlockchainData';
 
-type TabType = 'general' | 'edgenodes' | 'users';
+type TabType = 'general' | 'edgenodes' | 'incidents' | 'users';
 
 export default function Stats() {
   const [activeTab, setActiveTab] = useState<TabType>('general');
   const [selectedMetric, setSelectedMetric] = useState('stfuelRate');
   const [dateRange, setDateRange] = useState('7d');
+  const [incidentNode, setIncidentNode] = useState('');
 
   // Use the APR hook
   const { apr, loading: aprLoading, error: aprError, dataPoints, timeRange } = useAPR();
@@ -24,6 +26,7 @@ export default function Stats() {
   // Stable query variables to prevent unnecessary re-renders
   const edgeNodesVariablesRef = useRef({ first: 50 });
   const usersVariablesRef = useRef({ first: 100, minBalance: '1000000000000000000' });
+  const incidentsVariablesRef = useRef({ first: 200 });
   
   // Create stable variables for snapshots based on date range
   const snapshotVariables = useMemo(() => {
@@ -57,11 +60,12 @@ export default function Stats() {
     };
   }, [dateRange]);
 
-  // Use appropriate query based on time range
-  const { data: hourlyData, loading: hourlyLoading } = useQuery(
-    snapshotVariables.useDaily ? GET_DAILY_SNAPSHOTS : GET_HOURLY_SNAPSHOTS,
+  // Hourly or daily rollups depending on the time range
+  const { data: snapshotsData, loading: hourlyLoading } = useQuery<SnapshotsData>(
+    GET_SNAPSHOTS,
     {
       variables: {
+        resolution: snapshotVariables.useDaily ? 'day' : 'hour',
         first: snapshotVariables.first,
         fromDate: snapshotVariables.fromDate,
         toDate: snapshotVariables.toDate,
@@ -79,11 +83,15 @@ export default function Stats() {
     variables: usersVariablesRef.current,
     fetchPolicy: 'cache-first'
   });
+  const { data: incidentsData, loading: incidentsLoading } = useQuery<NodeIncidentsData>(GET_NODE_INCIDENTS, {
+    variables: incidentsVariablesRef.current,
+    fetchPolicy: 'cache-first'
+  });
 
-  // Get snapshots from the appropriate data source
-  const snapshots = snapshotVariables.useDaily 
-    ? (hourlyData as any)?.dailySnapshots?.edges?.map((edge: any) => edge.node) || []
-    : (hourlyData as any)?.hourlySnapshots?.edges?.map((edge: any) => edge.node) || [];
+  const snapshots = useMemo(
+    () => snapshotsData?.snapshots?.edges.map((edge) => edge.node) || [],
+    [snapshotsData]
+  );
   
   // Filter edge nodes: show if net staked > 0 OR (isLive and isActive)
   const edgeNodes = useMemo(() => {
@@ -97,6 +105,14 @@ export default function Stats() {
   }, [edgeNodesData]);
   const users = (usersData as any)?.users?.edges?.map((edge: any) => edge.node) || [];
 
+  // Incident history, optionally narrowed to one node
+  const incidents = incidentsData?.nodeIncidents?.edges.map((edge) => edge.node) || [];
+  const incidentNodes = Array.from(new Set(incidents.map((incident) => incident.nodeAddress)));
+  const filteredIncidents = incidentNode
+    ? incidents.filter((incident) => incident.nodeAddress === incidentNode)
+    : incidents;
+  const incidentStats = incidentsData?.nodeIncidentStats;
+
   // Process chart data
   const chartData = useMemo(() => {
     if (!snapshots.length) return [];
@@ -107,9 +123,10 @@ export default function Stats() {
     
     // Process all snapshots first
     const processedSnapshots = snapshots
-      .map((snapshot: any) => {
-        const stfuelRate = calculateExchangeRate(snapshot.tfuelBackingAmount, snapshot.stfuelTotalSupply);
-        const timestamp = parseTimestamp(snapshot.snapshotTimestamp);
+      .map((snapshot) => {
+        // Closing exchange rate of the period, scaled by 1e18
+        const stfuelRate = snapshot.closeRate ? Number(ethers.formatUnits(snapshot.closeRate, 18)) : 0;
+        const timestamp = parseTimestamp(snapshot.periodStart);
         const date = new Date(timestamp);
         
         // Create local date for display purposes
@@ -222,6 +239,7 @@ export default function Stats() {
   const tabs = [
     { id: 'general', label: 'General' },
     { id: 'edgenodes', label: 'EdgeNodes' },
+    { id: 'incidents', label: 'Incidents' },
     { id: 'users', label: 'Users' },
   ];
 
@@ -568,6 +586,123 @@ export default function Stats() {
           </div>
         )}
 
+        {activeTab === 'incidents' && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              <StatsCard
+                label="Faulty Incidents"
+                value={incidentsLoading ? 'Loading...' : formatNumber(incidentStats?.incidentsCount || 0)}
+                color="secondary"
+                subtitle={incidentsLoading ? 'Get incidents...' : `${incidentStats?.affectedNodesCount || 0} nodes affected`}
+              />
+              <StatsCard
+                label="TFuel at Risk"
+                value={incidentsLoading ? 'Loading...' : formatNumber(parseFloat(formatTFuelBigInt(incidentStats?.amountAtRisk || '0')))}
+                color="tfuel"
+                subtitle={incidentsLoading ? 'Get incidents...' : `${incidentStats?.openCount || 0} open incidents`}
+              />
+              <StatsCard
+                label="TFuel Recovered"
+                value={incidentsLoading ? 'Loading...' : formatNumber(parseFloat(formatTFuelBigInt(incidentStats?.totalRecovered || '0')))}
+                color="theta"
+                subtitle={incidentsLoading
+                  ? 'Get incidents...'
+                  : incidentStats?.averageRecoverySeconds != null
+                    ? `Avg. recovery ${formatDuration(incidentStats.averageRecoverySeconds)}`
+                    : 'No recoveries yet'}
+              />
+            </div>
+
+            <div className="bg-card-dark border border-border-dark/50 rounded-xl overflow-hidden">
+              <div className="px-6 py-4 border-b border-border-dark/50 flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-white">Incident History</h3>
+                <select
+                  value={incidentNode}
+                  onChange={(e) => setIncidentNode(e.target.value)}
+                  className="px-3 py-2 bg-background-dark border border-border-dark rounded-lg text-sm text-white focus:border-tfuel focus:outline-none hover:cursor-pointer"
+                >
+                  <option value="">All nodes</option>
+                  {incidentNodes.map((nodeAddress) => (
+                    <option key={nodeAddress} value={nodeAddress}>
+                      {formatAddress(nodeAddress)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-background-dark">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-text-secondary-dark uppercase tracking-wider">
+                        Node
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-text-secondary-dark uppercase tracking-wider">
+                        Status
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-text-secondary-dark uppercase tracking-wider">
+                        Staked at Risk
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-text-secondary-dark uppercase tracking-wider">
+                        Recovered
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-text-secondary-dark uppercase tracking-wider">
+                        Faulty Since
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-text-secondary-dark uppercase tracking-wider">
+                        Duration
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border-dark/50">
+                    {incidentsLoading ? (
+                      <tr>
+                        <td colSpan={6} className="px-6 py-4 text-center text-text-secondary-dark">
+                          Loading...
+                        </td>
+                      </tr>
+                    ) : filteredIncidents.length === 0 ? (
+                      <tr>
+                        <td colSpan={6} className="px-6 py-4 text-center text-text-secondary-dark">
+                          No incidents found
+                        </td>
+                      </tr>
+                    ) : (
+                      filteredIncidents.map((incident) => (
+                        <tr key={incident.id} className="hover:bg-background-dark/50">
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-white font-mono">
+                            {formatAddress(incident.nodeAddress)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                              incident.isOpen
+                                ? 'bg-red-500/20 text-red-400'
+                                : 'bg-green-500/20 text-green-400'
+                            }`}>
+                              {incident.isOpen ? 'Faulty' : 'Recovered'}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-white">
+                            {formatTFuelBigInt(incident.stakedAmount)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-text-secondary-dark">
+                            {incident.recoveredAmount !== null ? formatTFuelBigInt(incident.recoveredAmount) : '-'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-text-secondary-dark">
+                            {formatDate(incident.faultyTimestamp)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-text-secondary-dark">
+                            {formatDuration(incident.durationSeconds)}
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        )}
+
         {activeTab === 'users' && (
           <div className="bg-card-dark border border-border-dark/50 rounded-xl overflow-hidden">
             <div className="px-6 py-4 border-b border-border-dark/50">
@@ -749,13 +884,3 @@ function generateFixedTicks(dateRange: string): number[] {
   return ticks.sort((a, b) => a - b);
 }
 
-
-function calculateExchangeRate(tfuelBacking: string, stfuelSupply: string): number {
-  try {
-    const backing = parseFloat(tfuelBacking);
-    const supply = parseFloat(stfuelSupply);
-    return supply === 0 ? 0.1 : backing / supply;
-  } catch {
-    return 0.1;
-  }
-}
@@ -3,26 +3,30 @@ import { useState, useEffect } from 'react';
 import { useQuery } from '@apollo/client/react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useContract } from '@/hooks/useContract';
-import { GET_USER, GET_REDEMPTION_QUEUE } from '@/graphql/queries';
+import { GET_USER, GET_REDEMPTION_QUEUE, GET_PENDING_EVENTS, GET_PROTOCOL_CONFIG, ProtocolConfigData, GET_REFERRAL_NFTS, ReferralNftsData, GET_BALANCE_HISTORY, BalanceHistoryData } from '@/graphql/queries';
 import { formatTFuel, formatTFuelBigInt, formatAddress, formatDate, formatNumber } from '@/lib/formatters';
 import { parseTFuel } from '@/lib/formatters';
 import TransactionConfirmationModal from '@/components/TransactionConfirmationModal';
 import {ethers} from 'ethers';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+
+interface PendingEvent {
+  id: string;
+  eventName: string;
+  blockNumber: string;
+  transactionHash: string;
+}
 
 export default function Wallet() {
   const { user } = useAuth();
   const { 
     getBalance, 
-    getOwnedNFTs, 
     getReferralAddress,
     canDirectRedeem,
     setReferralIdToAddress, 
     burn, 
     burnAndRedeemDirect,
-    getDirectRedeemFeeBps,
     getPPS,
-    getKeeperTipBps,
-    getKeeperTipMax,
     claimTFuel,
     loading: contractLoading,
     error: contractError,
@@ -37,8 +41,6 @@ export default function Wallet() {
   const [directRedeemAmount, setDirectRedeemAmount] = useState('');
   const [referralAddress, setReferralAddress] = useState('');
   const [selectedNFT, setSelectedNFT] = useState('');
-  const [ownedNFTs, setOwnedNFTs] = useState<string[]>([]);
-  const [directRedeemFee, setDirectRedeemFee] = useState<number>(0);
   const [redeemError, setRedeemError] = useState<string | null>(null);
   const [referralError, setReferralError] = useState<string | null>(null);
   const [blockchainBalance, setBlockchainBalance] = useState<string>('0');
@@ -48,8 +50,6 @@ export default function Wallet() {
   const [copyFeedback, setCopyFeedback] = useState<string>('');
   const [maxDirectRedeemAmount, setMaxDirectRedeemAmount] = useState<string>('0');
   const [pps, setPPS] = useState<number>(0);
-  const [keeperTipBps, setKeeperTipBps] = useState<number>(5); // Default 0.05%
-  const [keeperTipMax, setKeeperTipMax] = useState<string>('0');
   
   // Use transaction execution state from useContract hook
   const redeemLoading = isTransactionExecuting('burn') || isTransactionExecuting('burnAndRedeemDirect');
@@ -102,49 +102,69 @@ export default function Wallet() {
     fetchPolicy: 'cache-first',
   });
 
+  // Events of blocks the indexer is still waiting to confirm - not yet in the balances above
+  const { data: pendingData } = useQuery(GET_PENDING_EVENTS, {
+    variables: { userAddress: user?.address },
+    skip: !user?.address,
+    fetchPolicy: 'network-only',
+    pollInterval: 10000,
+  });
+
+  // Referral NFTs of the user from the indexed NFT transfers
+  const { data: referralNftsData } = useQuery<ReferralNftsData>(GET_REFERRAL_NFTS, {
+    variables: { owner: user?.address, first: 1000 },
+    skip: !user?.address,
+    fetchPolicy: 'cache-and-network',
+  });
+
+  // Fees and keeper tip limits from the indexed protocol configuration
+  const { data: protocolConfigData } = useQuery<ProtocolConfigData>(GET_PROTOCOL_CONFIG, {
+    fetchPolicy: 'cache-and-network',
+  });
+
+  // Daily balance valued with the exchange rate of the day's last snapshot
+  const { data: balanceHistoryData } = useQuery<BalanceHistoryData>(GET_BALANCE_HISTORY, {
+    variables: { address: user?.address, resolution: 'day' },
+    skip: !user?.address,
+    fetchPolicy: 'cache-and-network',
+  });
+
+  const ownedReferralNfts = referralNftsData?.referralNfts?.edges.map((edge) => edge.node) || [];
+  const positionHistory = (balanceHistoryData?.balanceHistory || [])
+    .filter((point) => point.tfuelValue !== null)
+    .map((point) => ({
+      timestamp: new Date(point.periodStart).getTime(),
+      balance: Number(ethers.formatUnits(point.balance, 18)),
+      value: Number(ethers.formatUnits(point.tfuelValue!, 18)),
+    }));
+  const ownedNFTs = ownedReferralNfts.map((nft) => nft.tokenId);
+  const protocolConfig = protocolConfigData?.protocolConfig;
+  const directRedeemFee = Number(protocolConfig?.directRedeemFeeBps?.value ?? 0);
+  const keeperTipBps = Number(protocolConfig?.keeperTipBps?.value ?? 5); // Default 0.05%
+  const keeperTipMax = protocolConfig?.keeperTipMax?.value ?? '0';
+
   // Handle both possible data structures from the backend
   const userInfo = (userData as any)?.user || (userData as any)?.users?.edges?.[0]?.node;
   const redemptionQueue = (redemptionData as any)?.redemptionQueue?.edges?.map((edge: any) => edge.node) || [];
+  const pendingEvents = (pendingData as { pendingEvents?: PendingEvent[] } | undefined)?.pendingEvents || [];
 
-  // Load user's NFTs and fees
+  // Load the share price
   useEffect(() => {
     const loadUserData = async () => {
       if (!user?.address) return;
 
       try {
-        const [nfts, feeBps, pps, tipBps, tipMax] = await Promise.all([
-          getOwnedNFTs(user.address),
-          getDirectRedeemFeeBps(),
-          getPPS(),
-          getKeeperTipBps(),
-          getKeeperTipMax(),
-        ]);
-
-        if (nfts) {
-          setOwnedNFTs(nfts);
-        } else {
-          // NFT contract not configured or no NFTs owned
-          setOwnedNFTs([]);
-        }
-        if (feeBps) {
-          setDirectRedeemFee(Number(feeBps));
-        }
+        const pps = await getPPS();
         if (pps) {
           setPPS(parseFloat(ethers.formatUnits(pps, 18)));
         }
-        if (tipBps) {
-          setKeeperTipBps(Number(tipBps));
-        }
-        if (tipMax) {
-          setKeeperTipMax(tipMax.toString());
-        }
       } catch (error) {
         console.error('Error loading user data:', error);
       }
     };
 
     loadUserData();
-  }, [user?.address, getOwnedNFTs, getDirectRedeemFeeBps, getKeeperTipBps, getKeeperTipMax]);
+  }, [user?.address]);
 
   // Fetch referral address when NFT is selected
   useEffect(() => {
@@ -423,6 +443,27 @@ export default function Wallet() {
         )}
       </div>
 
+      {/* Pending Activity */}
+      {pendingEvents.length > 0 && (
+        <section>
+          <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-xl p-4">
+            <h3 className="text-lg font-semibold text-yellow-400 mb-2">Awaiting Confirmation</h3>
+            <p className="text-text-secondary-dark text-sm mb-3">
+              These transactions are on chain but not yet confirmed. Your stats will update once they are.
+            </p>
+            <ul className="space-y-1">
+              {pendingEvents.map((event) => (
+                <li key={event.id} className="flex flex-wrap gap-x-4 text-sm">
+                  <span className="text-white">{event.eventName}</span>
+                  <span className="text-text-secondary-dark font-mono">{formatAddress(event.transactionHash)}</span>
+                  <span className="text-text-secondary-dark">Block {event.blockNumber}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </section>
+      )}
+
       {/* User Stats Overview */}
       <section className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         <div className="bg-card-dark border border-border-dark/50 rounded-xl p-6">
@@ -595,6 +636,56 @@ export default function Wallet() {
         </div>
       </section>
 
+      {/* Position Value History */}
+      {positionHistory.length > 1 && (
+        <section>
+          <h2 className="text-2xl font-bold text-white mb-6">Position Value</h2>
+          <div className="bg-card-dark border border-border-dark/50 rounded-xl p-6">
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={positionHistory} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#325567" />
+                  <XAxis
+                    dataKey="timestamp"
+                    type="number"
+                    scale="time"
+                    domain={['dataMin', 'dataMax']}
+                    stroke="#A0A0B0"
+                    fontSize={12}
+                    tick={{ fill: '#A0A0B0' }}
+                    tickFormatter={(value) => new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  />
+                  <YAxis
+                    stroke="#A0A0B0"
+                    fontSize={12}
+                    tick={{ fill: '#A0A0B0' }}
+                    tickFormatter={(value) => formatNumber(value)}
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: '#1A1A22',
+                      border: '1px solid #325567',
+                      borderRadius: '8px',
+                      color: '#ffffff'
+                    }}
+                    labelFormatter={(label) => new Date(label).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}
+                    formatter={(value, name) => [
+                      formatNumber(Number(value)),
+                      name === 'value' ? 'Value (TFuel)' : 'Balance (sTFuel)'
+                    ]}
+                  />
+                  <Line type="monotone" dataKey="value" stroke="#ec8853" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="balance" stroke="#A0A0B0" strokeWidth={1} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="text-sm text-text-secondary-dark mt-2">
+              Daily sTFuel balance and its value in TFuel at the exchange rate of the day
+            </p>
+          </div>
+        </section>
+      )}
+
       {/* Error Handling */}
       {(userError || redemptionError) && (
         <section>
@@ -690,9 +781,9 @@ export default function Wallet() {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                          item.status === 'completed' 
+                          item.status === 'credited' || item.status === 'claimed'
                             ? 'bg-green-500/20 text-green-400'
-                            : item.status === 'pending'
+                            : item.status === 'pending' || item.status === 'unlockable'
                             ? 'bg-yellow-500/20 text-yellow-400'
                             : 'bg-gray-500/20 text-gray-400'
                         }`}>
@@ -740,9 +831,9 @@ export default function Wallet() {
                   required
                 >
                   <option value="">Choose an NFT</option>
-                  {ownedNFTs.map((tokenId) => (
-                    <option key={tokenId} value={tokenId}>
-                      NFT #{tokenId}
+                  {ownedReferralNfts.map((nft) => (
+                    <option key={nft.tokenId} value={nft.tokenId}>
+                      NFT #{nft.tokenId}{nft.payoutMismatch ? ' (rewards paid to another wallet)' : ''}
                     </option>
                   ))}
                 </select>
@@ -30,29 +30,62 @@ export const GET_HOURLY_SNAPSHOTS = gql`
   }
 `;
 
-export const GET_DAILY_SNAPSHOTS = gql`
-  query GetDailySnapshots($first: Int, $after: String, $fromDate: String, $toDate: String) {
-    dailySnapshots(first: $first, after: $after, fromDate: $fromDate, toDate: $toDate) {
+export interface SnapshotRollup {
+  periodStart: string;
+  periodEnd: string;
+  snapshotCount: number;
+  openRate: string | null;
+  closeRate: string | null;
+  minRate: string | null;
+  maxRate: string | null;
+  openSupply: string;
+  closeSupply: string;
+  minSupply: string;
+  maxSupply: string;
+  tfuelBackingAmount: string;
+  tfuelStakedAmount: string;
+  currentHoldersCount: number;
+  historicalHoldersCount: number;
+  totalReferralRewards: string;
+  edgeNodesCount: number;
+}
+
+export interface SnapshotsData {
+  snapshots: {
+    edges: { node: SnapshotRollup; cursor: string }[];
+    pageInfo: { hasNextPage: boolean; endCursor: string | null };
+    totalCount: number;
+  } | null;
+}
+
+// Snapshot rollups per hour, day, week or month, newest first
+export const GET_SNAPSHOTS = gql`
+  query GetSnapshots($resolution: String!, $first: Int, $after: String, $fromDate: String, $toDate: String) {
+    snapshots(resolution: $resolution, first: $first, after: $after, fromDate: $fromDate, toDate: $toDate) {
       edges {
         node {
-          id
-          blockNumber
-          snapshotTimestamp
+          periodStart
+          periodEnd
+          snapshotCount
+          openRate
+          closeRate
+          minRate
+          maxRate
+          openSupply
+          closeSupply
+          minSupply
+          maxSupply
           tfuelBackingAmount
           tfuelStakedAmount
-          stfuelTotalSupply
           currentHoldersCount
           historicalHoldersCount
           totalReferralRewards
           edgeNodesCount
-          createdAt
         }
         cursor
       }
       pageInfo {
         hasNextPage
-        hasPreviousPage
-        startCursor
         endCursor
       }
       totalCount
@@ -60,6 +93,72 @@ export const GET_DAILY_SNAPSHOTS = gql`
   }
 `;
 
+export interface YieldWindow {
+  window: '7d' | '30d' | '90d' | 'inception';
+  // Percent strings computed by the backend from the on-chain exchange rate
+  apr: string | null;
+  apy: string | null;
+  elapsedSeconds: number | null;
+  dataPoints: number;
+  startSnapshot: { blockNumber: string; snapshotTimestamp: string; pps: string | null; ppsSafe: string | null } | null;
+  endSnapshot: { blockNumber: string; snapshotTimestamp: string; pps: string | null; ppsSafe: string | null } | null;
+}
+
+export interface YieldsData {
+  yields: YieldWindow[];
+}
+
+// APR and APY over the trailing 7d, 30d and 90d and since inception
+export const GET_YIELDS = gql`
+  query GetYields {
+    yields {
+      window
+      apr
+      apy
+      elapsedSeconds
+      dataPoints
+      startSnapshot {
+        blockNumber
+        snapshotTimestamp
+        pps
+        ppsSafe
+      }
+      endSnapshot {
+        blockNumber
+        snapshotTimestamp
+        pps
+        ppsSafe
+      }
+    }
+  }
+`;
+
+export interface BalanceHistoryPoint {
+  periodStart: string;
+  periodEnd: string;
+  balance: string;
+  // TFuel per sTFuel scaled by 1e18, from the period's snapshot rollup
+  exchangeRate: string | null;
+  tfuelValue: string | null;
+}
+
+export interface BalanceHistoryData {
+  balanceHistory: BalanceHistoryPoint[];
+}
+
+// sTFuel balance of an address per hour, day, week or month, oldest first, valued in TFuel
+export const GET_BALANCE_HISTORY = gql`
+  query GetBalanceHistory($address: String!, $resolution: String!, $fromDate: String, $toDate: String) {
+    balanceHistory(address: $address, resolution: $resolution, fromDate: $fromDate, toDate: $toDate) {
+      periodStart
+      periodEnd
+      balance
+      exchangeRate
+      tfuelValue
+    }
+  }
+`;
+
 export const GET_USER = gql`
   query GetUser($address: String!) {
     user(address: $address) {
@@ -107,6 +206,8 @@ export const GET_REDEMPTION_QUEUE = gql`
           status
           creditedBlock
           creditedTimestamp
+          claimedBlock
+          claimedTimestamp
           createdAt
           updatedAt
         }
@@ -212,6 +313,122 @@ export const GET_SYNC_STATUS = gql`
   }
 `;
 
+export const GET_PENDING_EVENTS = gql`
+  query GetPendingEvents($userAddress: String) {
+    pendingEvents(userAddress: $userAddress) {
+      id
+      contractName
+      eventName
+      blockNumber
+      transactionHash
+      timestamp
+      confirmed
+    }
+  }
+`;
+
+export interface ProtocolConfigData {
+  protocolConfig: {
+    keeperTipBps: { value: string } | null;
+    keeperTipMax: { value: string } | null;
+    mintFeeBps: { value: string } | null;
+    directRedeemFeeBps: { value: string } | null;
+  };
+}
+
+export const GET_PROTOCOL_CONFIG = gql`
+  query GetProtocolConfig {
+    protocolConfig {
+      keeperTipBps {
+        value
+      }
+      keeperTipMax {
+        value
+      }
+      mintFeeBps {
+        value
+      }
+      directRedeemFeeBps {
+        value
+      }
+    }
+  }
+`;
+
+export interface ReferralNftsData {
+  referralNfts: {
+    edges: { node: { tokenId: string; payoutAddress: string | null; payoutMismatch: boolean } }[];
+  } | null;
+}
+
+export const GET_REFERRAL_NFTS = gql`
+  query GetReferralNfts($owner: String, $first: Int) {
+    referralNfts(owner: $owner, first: $first) {
+      edges {
+        node {
+          tokenId
+          payoutAddress
+          payoutMismatch
+        }
+      }
+    }
+  }
+`;
+
+export interface NodeIncident {
+  id: string;
+  nodeAddress: string;
+  stakedAmount: string;
+  faultyTimestamp: string;
+  recoveredAmount: string | null;
+  recoveryTimestamp: string | null;
+  isOpen: boolean;
+  durationSeconds: number;
+}
+
+export interface NodeIncidentsData {
+  nodeIncidents: {
+    edges: { node: NodeIncident }[];
+  } | null;
+  nodeIncidentStats: {
+    incidentsCount: number;
+    openCount: number;
+    recoveredCount: number;
+    affectedNodesCount: number;
+    amountAtRisk: string;
+    totalRecovered: string;
+    averageRecoverySeconds: number | null;
+  } | null;
+}
+
+export const GET_NODE_INCIDENTS = gql`
+  query GetNodeIncidents($first: Int, $nodeAddress: String) {
+    nodeIncidents(first: $first, nodeAddress: $nodeAddress) {
+      edges {
+        node {
+          id
+          nodeAddress
+          stakedAmount
+          faultyTimestamp
+          recoveredAmount
+          recoveryTimestamp
+          isOpen
+          durationSeconds
+        }
+      }
+    }
+    nodeIncidentStats {
+      incidentsCount
+      openCount
+      recoveredCount
+      affectedNodesCount
+      amountAtRisk
+      totalRecovered
+      averageRecoverySeconds
+    }
+  }
+`;
+
 export const GET_REDEMPTION_QUEUE_FOR_KEEPER = gql`
   query GetRedemptionQueueForKeeper($first: Int, $after: String, $status: String) {
     redemptionQueue(first: $first, after: $after, status: $status) {
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useQuery } from '@apollo/client/react';
-import { GET_SYNC_STATUS, GET_REDEMPTION_QUEUE_FOR_KEEPER } from '@/graphql/queries';
+import { GET_SYNC_STATUS, GET_REDEMPTION_QUEUE_FOR_KEEPER, GET_PROTOCOL_CONFIG, ProtocolConfigData } from '@/graphql/queries';
 import { useContract } from './useContract';
 import { formatTFuelBigInt } from '@/lib/formatters';
 
@@ -18,7 +18,6 @@ export const useActionButton = (): ActionButtonData | null => {
     getTotalAssetsTFuel,
     getTotalTFuelReserved,
     unstakedNodesLength,
-    getKeeperTipMax,
     pokeQueue,
     stakeTFuel,
     updateUnstakingNodes,
@@ -33,13 +32,17 @@ export const useActionButton = (): ActionButtonData | null => {
     pollInterval: 30000, // Poll every 30 seconds
   });
 
-  // Query redemption queue for keeper (status: 'pending')
+  // Query redemption queue for keeper (status: 'unlockable' - past their unlock block, not credited yet)
   const { data: queueData, loading: queueLoading } = useQuery(GET_REDEMPTION_QUEUE_FOR_KEEPER, {
-    variables: { first: 1000, status: 'pending' }, // Fetch enough entries - if more than 1000, we might miss some but that's unlikely
+    variables: { first: 1000, status: 'unlockable' }, // Fetch enough entries - if more than 1000, we might miss some but that's unlikely
     fetchPolicy: 'network-only',
     pollInterval: 30000,
   });
 
+  const { data: protocolConfigData } = useQuery<ProtocolConfigData>(GET_PROTOCOL_CONFIG, {
+    fetchPolicy: 'cache-and-network',
+  });
+
   useEffect(() => {
     const checkActions = async () => {
       setLoading(true);
@@ -73,8 +76,8 @@ export const useActionButton = (): ActionButtonData | null => {
           }, BigInt(0));
 
           // Get keeper tip max
-          const keeperTipMax = await getKeeperTipMax();
-          const maxTip = keeperTipMax ? BigInt(keeperTipMax.toString()) : null;
+          const keeperTipMax = protocolConfigData?.protocolConfig?.keeperTipMax?.value;
+          const maxTip = keeperTipMax ? BigInt(keeperTipMax) : null;
 
           // Cap at keeperTipMax if it exists
           const cappedTipFee = maxTip && totalTipFee > maxTip ? maxTip : totalTipFee;
@@ -149,12 +152,12 @@ export const useActionButton = (): ActionButtonData | null => {
   }, [
     syncData,
     queueData,
+    protocolConfigData,
     syncLoading,
     queueLoading,
     getTotalAssetsTFuel,
     getTotalTFuelReserved,
     unstakedNodesLength,
-    getKeeperTipMax,
     pokeQueue,
     stakeTFuel,
     updateUnstakingNodes,
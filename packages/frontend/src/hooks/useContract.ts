@@ -565,26 +565,6 @@ export const useContract = () => {
     }, 'stfuel');
   }, [readContract]);
 
-  const getMintFeeBps = useCallback(async () => {
-    return readContract(async (contract) => {
-      return contractFunctions.mintFeeBps(contract);
-    }, 'stfuel');
-  }, [readContract]);
-
-  const getDirectRedeemFeeBps = useCallback(async () => {
-    return readContract(async (contract) => {
-      return contractFunctions.directRedeemFeeBps(contract);
-    }, 'stfuel');
-  }, [readContract]);
-
-  const getOwnedNFTs = useCallback(async (owner: string) => {
-    const result = await readContract(async (contract) => {
-      return contractFunctions.getOwnedNFTs(contract, owner);
-    }, 'referralNFT');
-    
-    return result || [];
-  }, [readContract]);
-
   const getReferralAddress = useCallback(async (tokenId: string) => {
     return readContract(async (contract) => {
       return contractFunctions.getReferralAddress(contract, tokenId);
@@ -634,18 +614,6 @@ export const useContract = () => {
     });
   }, [writeContract]);
 
-  const getKeeperTipMax = useCallback(async () => {
-    return readContract(async (contract) => {
-      return contractFunctions.keeperTipMax(contract);
-    }, 'nodeManager');
-  }, [readContract]);
-
-  const getKeeperTipBps = useCallback(async () => {
-    return readContract(async (contract) => {
-      return contractFunctions.keeperTipBps(contract);
-    }, 'nodeManager');
-  }, [readContract]);
-
   const stakeTFuel = useCallback(async () => {
     return writeContract(async (contract, signer) => {
       return contractFunctions.stakeTFuel(contract, signer);
@@ -684,9 +652,6 @@ export const useContract = () => {
     getTotalSupply,
     getTotalAssetsTFuel,
     getPPS,
-    getMintFeeBps,
-    getDirectRedeemFeeBps,
-    getOwnedNFTs,
     getReferralAddress,
     canDirectRedeem,
     getNetAssetsBackingShares,
@@ -694,8 +659,6 @@ export const useContract = () => {
     getTotalTFuelReserved,
     unstakedNodesLength,
     updateUnstakingNodes,
-    getKeeperTipMax,
-    getKeeperTipBps,
     stakeTFuel,
     claimTFuel,
     // Confirmation modal
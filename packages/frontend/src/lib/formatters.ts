@@ -124,6 +124,16 @@ export const formatDate = (timestamp: string | Date): string => {
   }).format(date);
 };
 
+export const formatDuration = (seconds: number): string => {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+};
+
 export const formatBlockNumber = (blockNumber: string | bigint): string => {
   const num = typeof blockNumber === 'string' ? parseInt(blockNumber) : Number(blockNumber);
   return formatNumber(num);